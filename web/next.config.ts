@@ -1,7 +1,22 @@
 import type { NextConfig } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { formatCatalogReport, validateCatalog } from "./src/lib/catalog";
 
-const nextConfig: NextConfig = {
-  /* config options here */
+const nextConfig = (phase: string): NextConfig => {
+  // Cümle kataloğu hatalıysa build durur, uyarılar sadece listelenir
+  if (phase === PHASE_PRODUCTION_BUILD) {
+    const report = validateCatalog();
+    if (report.issues.length > 0) {
+      console.warn(formatCatalogReport(report));
+    }
+    if (!report.isValid) {
+      throw new Error("sentences.json doğrulamadan geçemedi");
+    }
+  }
+
+  return {
+    /* config options here */
+  };
 };
 
 export default nextConfig;
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import CryptographyGame from '@/components/CryptographyGame';
 import { 
   GameState, 
@@ -10,8 +10,28 @@ import {
   recordGameResult,
   SENTENCE_CATEGORIES,
   SENTENCES_DETAILED,
+  formatTime,
   getSentenceById
 } from '@/lib/cipher';
+import { buildReplay, describeMove, getBoardWords } from '@/lib/replay';
+import { type SolverResult, solveGame } from '@/lib/solver';
+import { type CatalogReport, type SentenceCatalog, recomputeCatalog, validateCatalog } from '@/lib/catalog';
+import { getAdminToken, saveSentence, setAdminToken, setSentenceRetired, syncSentenceCatalog } from '@/lib/sentenceApi';
+import { type DifficultyEstimate, estimateSentenceDifficulty } from '@/lib/difficulty';
+import { getDifficultyDistribution, getMatchingRules, getPerformanceMetrics } from '@/lib/progression';
+import { type RatingState, getSentenceRating, isRatingEnabled, loadRatings } from '@/lib/rating';
+import { type SentenceHistory, getScheduleStats, loadHistory } from '@/lib/scheduler';
+import { type CipherFamily, getCipherFamilies } from '@/lib/ciphers';
+
+interface SentenceForm {
+  text: string;
+  difficulty: string;
+  category: string;
+  description: string;
+  tags: string; // Virgülle ayrılmış
+}
+
+const EMPTY_SENTENCE_FORM: SentenceForm = { text: '', difficulty: 'easy', category: 'daily', description: '', tags: '' };
 
 export default function TestScreen() {
   const [progressiveState, setProgressiveState] = useState<ProgressiveGameState>(initializeProgressiveGame());
@@ -20,6 +40,34 @@ export default function TestScreen() {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all');
   const [selectedSentenceId, setSelectedSentenceId] = useState<number | null>(null);
+  // null: aile zorluk / kategori kurallarından seçilir (normal oyundaki gibi)
+  const [selectedCipher, setSelectedCipher] = useState<CipherFamily | null>(null);
+  const [hideWordBoundaries, setHideWordBoundaries] = useState(false);
+  const [fillMode, setFillMode] = useState(false);
+  const [replayResultIndex, setReplayResultIndex] = useState<number | null>(null);
+  const [replayStep, setReplayStep] = useState(0);
+  const [solverResult, setSolverResult] = useState<SolverResult | null>(null);
+  const [catalogReport, setCatalogReport] = useState<CatalogReport | null>(null);
+  const [catalogMessage, setCatalogMessage] = useState('');
+  const [storeCatalog, setStoreCatalog] = useState<SentenceCatalog | null>(null);
+  const [sentenceForm, setSentenceForm] = useState<SentenceForm>(EMPTY_SENTENCE_FORM);
+  const [editorMessage, setEditorMessage] = useState('');
+  const [adminToken, setAdminTokenInput] = useState('');
+  const [ratings, setRatings] = useState<RatingState | null>(null);
+  const [sentenceHistory, setSentenceHistory] = useState<SentenceHistory | null>(null);
+
+  // Rebuild the selected finished game from its move log
+  const replay = useMemo(
+    () => replayResultIndex !== null ? buildReplay(gameResults[replayResultIndex]) : null,
+    [replayResultIndex, gameResults]
+  );
+  const replayFrames = replay?.frames ?? [];
+  const replayFrame = replayFrames[Math.min(replayStep, replayFrames.length - 1)];
+
+  const openReplay = (resultIndex: number) => {
+    setReplayResultIndex(resultIndex);
+    setReplayStep(0);
+  };
 
   // Listen to game state changes from CryptographyGame
   useEffect(() => {
@@ -35,20 +83,47 @@ export default function TestScreen() {
       setGameResults(prev => [...prev, event.detail]);
     };
 
+    const handleRatingsChange = (event: CustomEvent<RatingState>) => {
+      setRatings(event.detail);
+    };
+
+    const handleSentenceHistoryChange = (event: CustomEvent<SentenceHistory>) => {
+      setSentenceHistory(event.detail);
+    };
+
+    setRatings(loadRatings());
+    setSentenceHistory(loadHistory());
+
     window.addEventListener('gameStateChange', handleGameStateChange as EventListener);
     window.addEventListener('progressiveStateChange', handleProgressiveStateChange as EventListener);
     window.addEventListener('gameResult', handleGameResult as EventListener);
+    window.addEventListener('ratingsChange', handleRatingsChange as EventListener);
+    window.addEventListener('sentenceHistoryChange', handleSentenceHistoryChange as EventListener);
 
     return () => {
       window.removeEventListener('gameStateChange', handleGameStateChange as EventListener);
       window.removeEventListener('progressiveStateChange', handleProgressiveStateChange as EventListener);
       window.removeEventListener('gameResult', handleGameResult as EventListener);
+      window.removeEventListener('ratingsChange', handleRatingsChange as EventListener);
+      window.removeEventListener('sentenceHistoryChange', handleSentenceHistoryChange as EventListener);
     };
   }, []);
 
+  // Load the sentence store (retired sentences included) for authoring
+  useEffect(() => {
+    syncSentenceCatalog().then(setStoreCatalog);
+    setAdminTokenInput(getAdminToken());
+  }, []);
+
+  // Yeni bulmacada eski çözücü sonucu geçersiz
+  useEffect(() => {
+    setSolverResult(null);
+  }, [gameState?.cipherSentence]);
+
   const resetSystem = () => {
     setProgressiveState(initializeProgressiveGame());
     setGameResults([]);
+    setReplayResultIndex(null);
     // Trigger new game in CryptographyGame
     window.dispatchEvent(new CustomEvent('resetGame'));
   };
@@ -60,13 +135,71 @@ export default function TestScreen() {
   const startCustomGame = () => {
     if (selectedSentenceId) {
       window.dispatchEvent(new CustomEvent('startCustomGame', { 
-        detail: { sentenceId: selectedSentenceId } 
+        detail: { sentenceId: selectedSentenceId, cipher: selectedCipher ?? undefined, hideWordBoundaries, fillMode } 
       }));
     }
   };
 
+  // Store sentences when the API is available, otherwise the bundled catalog (read-only)
+  const allSentences = storeCatalog?.sentences ?? SENTENCES_DETAILED;
+  const selectedSentence = allSentences.find(sentence => sentence.id === selectedSentenceId) ?? null;
+
+  // Otomatik zorluk tahmini, elle verilen etiketle karşılaştırmak için
+  const difficultyEstimates = useMemo(() => {
+    const estimates = new Map<number, DifficultyEstimate>();
+    allSentences.forEach(sentence => estimates.set(sentence.id, estimateSentenceDifficulty(sentence.text)));
+    return estimates;
+  }, [allSentences]);
+  const disagreementCount = allSentences.filter(sentence =>
+    difficultyEstimates.get(sentence.id)?.difficulty !== sentence.difficulty
+  ).length;
+
+  const selectSentence = (sentenceId: number) => {
+    const sentence = allSentences.find(s => s.id === sentenceId);
+    if (!sentence) return;
+    setSelectedSentenceId(sentenceId);
+    setSentenceForm({
+      text: sentence.text,
+      difficulty: sentence.difficulty,
+      category: sentence.category,
+      description: sentence.description ?? '',
+      tags: sentence.tags.join(', ')
+    });
+    setEditorMessage('');
+  };
+
+  const startNewSentence = () => {
+    setSelectedSentenceId(null);
+    setSentenceForm(EMPTY_SENTENCE_FORM);
+    setEditorMessage('');
+  };
+
+  const submitSentence = async () => {
+    const result = await saveSentence({
+      text: sentenceForm.text,
+      difficulty: sentenceForm.difficulty,
+      category: sentenceForm.category,
+      description: sentenceForm.description,
+      tags: sentenceForm.tags.split(',')
+    }, selectedSentenceId ?? undefined);
+    setEditorMessage(result.message);
+    if (result.success && result.catalog && result.sentence) {
+      setStoreCatalog(result.catalog);
+      setSelectedSentenceId(result.sentence.id);
+    }
+  };
+
+  const toggleRetired = async () => {
+    if (!selectedSentence) return;
+    const result = await setSentenceRetired(selectedSentence.id, !selectedSentence.retired);
+    setEditorMessage(result.message);
+    if (result.success && result.catalog) {
+      setStoreCatalog(result.catalog);
+    }
+  };
+
   // Filter sentences based on selected filters
-  const filteredSentences = SENTENCES_DETAILED.filter(sentence => {
+  const filteredSentences = allSentences.filter(sentence => {
     const categoryMatch = selectedCategory === 'all' || sentence.category === selectedCategory;
     const difficultyMatch = selectedDifficulty === 'all' || sentence.difficulty === selectedDifficulty;
     return categoryMatch && difficultyMatch;
@@ -108,11 +241,25 @@ export default function TestScreen() {
                 <span className="text-gray-400">Harf Sayısı:</span> {gameState.revealedLetters.size}
               </div>
               <div className="text-gray-300">
-                <span className="text-gray-400">Hata:</span> {gameState.mistakes}
+                <span className="text-gray-400">Hata:</span> {gameState.mistakes}/{gameState.maxMistakes}
+              </div>
+              <div className="text-gray-300">
+                <span className="text-gray-400">Süre Sınırı:</span> {gameState.timeLimit > 0 ? formatTime(gameState.timeLimit) : 'Yok'}
               </div>
               <div className="text-gray-300">
                 <span className="text-gray-400">İpucu:</span> {gameState.hintsUsed}/{gameState.maxHints}
               </div>
+              <div className="text-gray-300">
+                <span className="text-gray-400">Şifre:</span> {getCipherFamilies().find(({ family }) => family === gameState.cipher.family)?.name}
+                {gameState.cipher.key && ` (${gameState.cipher.key})`}
+                {gameState.cipher.shift !== undefined && ` (+${gameState.cipher.shift})`}
+              </div>
+              <div className="text-gray-300">
+                <span className="text-gray-400">Kelime Sınırları:</span> {gameState.groupSize ? `Gizli (${gameState.groupSize} harflik gruplar)` : 'Görünür'}
+              </div>
+              <div className="text-gray-300">
+                <span className="text-gray-400">Doldurma Modu:</span> {gameState.fillMode ? `Açık (${gameState.assignments.size} atama)` : 'Kapalı'}
+              </div>
               <div className="text-gray-300">
                 <span className="text-gray-400">Durum:</span> 
                 <span className={`ml-2 px-2 py-1 rounded text-xs ${
@@ -127,6 +274,48 @@ export default function TestScreen() {
           )}
         </div>
 
+        {/* Solver */}
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-white font-medium mb-3">Çözücü</h3>
+          <button
+            onClick={() => gameState && setSolverResult(solveGame(gameState))}
+            disabled={!gameState}
+            className={`w-full px-4 py-2 rounded-lg text-sm font-medium transition-colors mb-3 ${
+              gameState
+                ? 'bg-purple-600 hover:bg-purple-700 text-white'
+                : 'bg-gray-500 text-gray-300 cursor-not-allowed'
+            }`}
+          >
+            Başlangıç Harfleriyle Çöz
+          </button>
+          {solverResult && !solverResult.isSupported && (
+            <div className="text-gray-400 text-sm">Homofonik ve Vigenère tahtalarında bir token tek harfe karşılık gelmediği için çözücü desteklenmiyor.</div>
+          )}
+          {solverResult && solverResult.isSupported && (
+            <div className="space-y-2 text-sm">
+              <div className="text-gray-300">
+                <span className="text-gray-400">Çözülebilir:</span>
+                <span className={`ml-2 px-2 py-1 rounded text-xs ${
+                  solverResult.isUnique && solverResult.isFullyDecoded ? 'bg-green-600' : 'bg-yellow-600'
+                }`}>
+                  {solverResult.isUnique && solverResult.isFullyDecoded ? 'Evet (tek çözüm)' : 'Belirsiz'}
+                </span>
+              </div>
+              <div className="text-gray-300">
+                <span className="text-gray-400">Aday Çözüm:</span> {solverResult.solutionCount}{solverResult.isExhaustive ? '' : '+'}
+              </div>
+              <div className="text-gray-300">
+                <span className="text-gray-400">Sözlükte Olmayan Kelime:</span> {solverResult.unknownWords.length}
+              </div>
+              {solverResult.solutions.slice(0, 3).map((solution, index) => (
+                <div key={index} className="text-gray-300 text-xs font-mono break-words">
+                  {index + 1}. {solution.plaintext}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Progressive System Info */}
         <div className="bg-gray-700 rounded-lg p-4 mb-6">
           <h3 className="text-white font-medium mb-3">Progresif Sistem</h3>
@@ -143,16 +332,116 @@ export default function TestScreen() {
             <div className="text-gray-300">
               <span className="text-gray-400">Ort. Hata:</span> {averageMistakes}
             </div>
+            {(() => {
+              // Sıradaki cümlenin zorluk olasılıkları ve bunları kaydıran kurallar
+              const distribution = getDifficultyDistribution(
+                progressiveState.currentSentenceNumber,
+                progressiveState.performanceHistory,
+                progressiveState.adaptiveMode
+              );
+              const metrics = getPerformanceMetrics(progressiveState.performanceHistory);
+              const rules = metrics && progressiveState.adaptiveMode ? getMatchingRules(metrics) : [];
+              return (
+                <>
+                  <div className="text-gray-300">
+                    <span className="text-gray-400">Sonraki Zorluk:</span>{' '}
+                    K {Math.round(distribution.easy * 100)}% · O {Math.round(distribution.medium * 100)}% · Z {Math.round(distribution.hard * 100)}%
+                  </div>
+                  {isRatingEnabled() && (
+                    <div className="text-gray-400 text-xs">Rating, bu zorluktaki cümleler arasından oyuncuya en yakın olanları seçer</div>
+                  )}
+                  {rules.map((rule, index) => (
+                    <div key={index} className={`text-xs ${rule.shift > 0 ? 'text-red-300' : 'text-green-300'}`}>
+                      {rule.shift > 0 ? '▲' : '▼'} {rule.description}
+                    </div>
+                  ))}
+                </>
+              );
+            })()}
           </div>
         </div>
 
+        {/* Ratings */}
+        {ratings && (
+          <div className="bg-gray-700 rounded-lg p-4 mb-6">
+            <h3 className="text-white font-medium mb-3">Rating</h3>
+            <div className="space-y-2 text-sm">
+              <div className="text-gray-300">
+                <span className="text-gray-400">Oyuncu:</span> {ratings.player.rating} ±{Math.round(ratings.player.deviation)}
+                <span className="text-gray-400"> ({ratings.player.games} oyun)</span>
+              </div>
+              {Object.keys(ratings.sentences).length > 0 && (
+                <div className="max-h-32 overflow-y-auto bg-gray-600 rounded border border-gray-500 text-xs">
+                  {allSentences
+                    .filter(sentence => ratings.sentences[sentence.id])
+                    .map(sentence => ({ sentence, rating: getSentenceRating(ratings, sentence) }))
+                    .sort((a, b) => b.rating.rating - a.rating.rating)
+                    .map(({ sentence, rating }) => (
+                      <div key={sentence.id} className="flex justify-between p-1 text-gray-300">
+                        <span className="truncate mr-2">#{sentence.id} {sentence.text}</span>
+                        <span>{rating.rating} ({rating.games})</span>
+                      </div>
+                    ))}
+                </div>
+              )}
+              <button
+                onClick={() => window.dispatchEvent(new CustomEvent('resetRatings'))}
+                className="w-full bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs"
+              >
+                Rating&apos;leri Sıfırla
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Seen Sentences */}
+        {sentenceHistory && (() => {
+          const stats = getScheduleStats(allSentences.filter(sentence => !sentence.retired), sentenceHistory);
+          const difficultyNames: Record<string, string> = { easy: 'Kolay', medium: 'Orta', hard: 'Zor' };
+          return (
+            <div className="bg-gray-700 rounded-lg p-4 mb-6">
+              <h3 className="text-white font-medium mb-3">Görülen Cümleler</h3>
+              <div className="space-y-1 text-xs text-gray-300">
+                <div className="text-sm">
+                  <span className="text-gray-400">Toplam:</span> {stats.overall.seen}/{stats.overall.total} görüldü · {stats.overall.remaining} kalan
+                </div>
+                {Object.entries(stats.byDifficulty).map(([difficulty, pool]) => (
+                  <div key={difficulty} className="flex justify-between">
+                    <span>{difficultyNames[difficulty] ?? difficulty}</span>
+                    <span>{pool.seen}/{pool.total} · {pool.solved} çözüldü · {pool.remaining} kalan</span>
+                  </div>
+                ))}
+                <div className="border-t border-gray-600 pt-1 mt-1" />
+                {Object.entries(stats.byCategory).map(([category, pool]) => (
+                  <div key={category} className="flex justify-between">
+                    <span style={{ color: SENTENCE_CATEGORIES[category as keyof typeof SENTENCE_CATEGORIES]?.color }}>
+                      {SENTENCE_CATEGORIES[category as keyof typeof SENTENCE_CATEGORIES]?.name ?? category}
+                    </span>
+                    <span>{pool.seen}/{pool.total} · {pool.remaining} kalan</span>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => window.dispatchEvent(new CustomEvent('resetHistory'))}
+                className="w-full bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs mt-2"
+              >
+                Geçmişi Sıfırla
+              </button>
+            </div>
+          );
+        })()}
+
         {/* Recent Games */}
         <div className="bg-gray-700 rounded-lg p-4 mb-6">
           <h3 className="text-white font-medium mb-3">Son Oyunlar</h3>
           <div className="space-y-1 text-xs">
             {gameResults.slice(-5).reverse().map((result, index) => (
-              <div key={index} className="flex justify-between text-gray-300">
-                <span>Cümle {result.sentenceNumber}</span>
+              <div
+                key={index}
+                className={`flex justify-between text-gray-300 ${result.moves ? 'cursor-pointer hover:text-white' : ''}`}
+                onClick={() => result.moves && openReplay(gameResults.length - 1 - index)}
+              >
+                <span>Cümle {result.sentenceNumber}{result.moves ? ' ▶' : ''}</span>
                 <span className={`px-2 py-1 rounded ${
                   result.isWon ? 'bg-green-600' : 'bg-red-600'
                 }`}>
@@ -166,6 +455,64 @@ export default function TestScreen() {
           </div>
         </div>
 
+        {/* Game Replay */}
+        {replay && (
+          <div className="bg-gray-700 rounded-lg p-4 mb-6">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-white font-medium">Oyun Tekrarı</h3>
+              <button
+                onClick={() => setReplayResultIndex(null)}
+                className="text-gray-400 hover:text-white text-sm"
+              >
+                ✕
+              </button>
+            </div>
+            {replayFrame ? (
+              <div className="space-y-3 text-sm">
+                <div className="flex flex-wrap gap-2 font-mono">
+                  {getBoardWords(replayFrame.game).map((word, wordIndex) => (
+                    <div key={wordIndex} className="flex gap-0.5">
+                      {word.map(cell => (
+                        <div key={cell.index} className="flex flex-col items-center w-5">
+                          <span className={cell.isRevealed ? 'text-white' : 'text-gray-500'}>
+                            {cell.isRevealed ? cell.letter : '_'}
+                          </span>
+                          <span className="text-gray-400 text-[10px]">{cell.token}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <div className="text-gray-300">
+                  <span className="text-gray-400">Hamle {replayStep}/{replayFrames.length - 1}:</span> {describeMove(replayFrame.move)}
+                </div>
+                <div className="text-gray-300">
+                  <span className="text-gray-400">Hata:</span> {replayFrame.game.mistakes}
+                  <span className="text-gray-400 ml-3">İpucu:</span> {replayFrame.game.hintsUsed}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setReplayStep(step => Math.max(0, step - 1))}
+                    disabled={replayStep === 0}
+                    className="flex-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white px-2 py-1 rounded text-xs"
+                  >
+                    ◀ Geri
+                  </button>
+                  <button
+                    onClick={() => setReplayStep(step => Math.min(replayFrames.length - 1, step + 1))}
+                    disabled={replayStep >= replayFrames.length - 1}
+                    className="flex-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white px-2 py-1 rounded text-xs"
+                  >
+                    İleri ▶
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-gray-400 text-sm">{replay.message}</div>
+            )}
+          </div>
+        )}
+
         {/* Sentence Selector */}
         <div className="bg-gray-700 rounded-lg p-4 mb-6">
           <h3 className="text-white font-medium mb-3">Cümle Seçici</h3>
@@ -202,7 +549,12 @@ export default function TestScreen() {
 
           {/* Sentence List */}
           <div className="mb-3">
-            <label className="block text-gray-300 text-sm mb-1">Cümleler ({filteredSentences.length})</label>
+            <label className="block text-gray-300 text-sm mb-1">
+              Cümleler ({filteredSentences.length})
+              {disagreementCount > 0 && (
+                <span className="text-yellow-400 ml-2">⚠ {disagreementCount} zorluk uyuşmazlığı</span>
+              )}
+            </label>
             <div className="max-h-40 overflow-y-auto bg-gray-600 rounded border border-gray-500">
               {filteredSentences.map((sentence) => (
                 <div 
@@ -210,9 +562,9 @@ export default function TestScreen() {
                   className={`p-2 text-xs cursor-pointer hover:bg-gray-500 transition-colors ${
                     selectedSentenceId === sentence.id ? 'bg-blue-600' : ''
                   }`}
-                  onClick={() => setSelectedSentenceId(sentence.id)}
+                  onClick={() => selectSentence(sentence.id)}
                 >
-                  <div className="text-white font-medium truncate">{sentence.text}</div>
+                  <div className={`font-medium truncate ${sentence.retired ? 'text-gray-400 line-through' : 'text-white'}`}>{sentence.text}</div>
                   <div className="text-gray-400 flex items-center gap-2 mt-1">
                     <span className={`px-1 py-0.5 rounded text-xs ${
                       sentence.difficulty === 'easy' ? 'bg-green-600' :
@@ -221,6 +573,20 @@ export default function TestScreen() {
                       {sentence.difficulty === 'easy' ? 'K' : 
                        sentence.difficulty === 'medium' ? 'O' : 'Z'}
                     </span>
+                    {(() => {
+                      const estimate = difficultyEstimates.get(sentence.id);
+                      if (!estimate) return null;
+                      const isDisagreement = estimate.difficulty !== sentence.difficulty;
+                      return (
+                        <span
+                          className={isDisagreement ? 'text-yellow-400' : 'text-gray-400'}
+                          title={isDisagreement ? 'Tahmin elle verilen zorlukla uyuşmuyor' : 'Tahmini zorluk'}
+                        >
+                          {isDisagreement ? '⚠ ' : '~'}
+                          {estimate.difficulty === 'easy' ? 'K' : estimate.difficulty === 'medium' ? 'O' : 'Z'} {estimate.score}
+                        </span>
+                      );
+                    })()}
                     <span style={{ color: (SENTENCE_CATEGORIES as any)[sentence.category]?.color }}>
                       {(SENTENCE_CATEGORIES as any)[sentence.category]?.name}
                     </span>
@@ -230,12 +596,43 @@ export default function TestScreen() {
             </div>
           </div>
 
+          {/* Cipher Family */}
+          <div className="mb-3">
+            <label className="block text-gray-300 text-sm mb-1">Şifre Ailesi</label>
+            <select 
+              value={selectedCipher ?? ''} 
+              onChange={(e) => setSelectedCipher(e.target.value ? e.target.value as CipherFamily : null)}
+              className="w-full bg-gray-600 text-white px-3 py-2 rounded text-sm border border-gray-500"
+            >
+              <option value="">Zorluk varsayılanı</option>
+              {getCipherFamilies().map(({ family, name }) => (
+                <option key={family} value={family}>{name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-gray-300 text-sm mt-2">
+              <input
+                type="checkbox"
+                checked={hideWordBoundaries}
+                onChange={(e) => setHideWordBoundaries(e.target.checked)}
+              />
+              Kelime sınırlarını ve noktalamayı gizle
+            </label>
+            <label className="flex items-center gap-2 text-gray-300 text-sm mt-2">
+              <input
+                type="checkbox"
+                checked={fillMode}
+                onChange={(e) => setFillMode(e.target.checked)}
+              />
+              Klasik doldurma modu (Vigenère hariç)
+            </label>
+          </div>
+
           {/* Custom Game Button */}
           <button 
             onClick={startCustomGame}
-            disabled={!selectedSentenceId}
+            disabled={!selectedSentence || selectedSentence.retired}
             className={`w-full px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-              selectedSentenceId 
+              selectedSentence && !selectedSentence.retired
                 ? 'bg-green-600 hover:bg-green-700 text-white' 
                 : 'bg-gray-500 text-gray-300 cursor-not-allowed'
             }`}
@@ -244,6 +641,151 @@ export default function TestScreen() {
           </button>
         </div>
 
+        {/* Sentence Editor */}
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-white font-medium mb-3">
+            {selectedSentence ? `Cümle #${selectedSentence.id} Düzenle` : 'Yeni Cümle'}
+          </h3>
+          {storeCatalog ? (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={adminToken}
+                onChange={(e) => {
+                  setAdminTokenInput(e.target.value);
+                  setAdminToken(e.target.value);
+                }}
+                placeholder="Yönetici anahtarı"
+                className="w-full bg-gray-600 text-white px-3 py-2 rounded text-sm border border-gray-500"
+              />
+              <textarea
+                value={sentenceForm.text}
+                onChange={(e) => setSentenceForm(form => ({ ...form, text: e.target.value }))}
+                placeholder="Cümle metni"
+                rows={2}
+                className="w-full bg-gray-600 text-white px-3 py-2 rounded text-sm border border-gray-500"
+              />
+              {sentenceForm.text.trim() !== '' && (() => {
+                const estimate = estimateSentenceDifficulty(sentenceForm.text);
+                return (
+                  <div className="text-gray-400 text-xs">
+                    Tahmini zorluk: {estimate.difficulty === 'easy' ? 'Kolay' : estimate.difficulty === 'medium' ? 'Orta' : 'Zor'} ({estimate.score})
+                  </div>
+                );
+              })()}
+              <div className="flex gap-2">
+                <select
+                  value={sentenceForm.difficulty}
+                  onChange={(e) => setSentenceForm(form => ({ ...form, difficulty: e.target.value }))}
+                  className="flex-1 bg-gray-600 text-white px-2 py-2 rounded text-sm border border-gray-500"
+                >
+                  <option value="easy">Kolay</option>
+                  <option value="medium">Orta</option>
+                  <option value="hard">Zor</option>
+                </select>
+                <select
+                  value={sentenceForm.category}
+                  onChange={(e) => setSentenceForm(form => ({ ...form, category: e.target.value }))}
+                  className="flex-1 bg-gray-600 text-white px-2 py-2 rounded text-sm border border-gray-500"
+                >
+                  {Object.entries(storeCatalog.categories).map(([key, category]) => (
+                    <option key={key} value={key}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                value={sentenceForm.description}
+                onChange={(e) => setSentenceForm(form => ({ ...form, description: e.target.value }))}
+                placeholder="Açıklama"
+                className="w-full bg-gray-600 text-white px-3 py-2 rounded text-sm border border-gray-500"
+              />
+              <input
+                value={sentenceForm.tags}
+                onChange={(e) => setSentenceForm(form => ({ ...form, tags: e.target.value }))}
+                placeholder="Etiketler (virgülle ayırın)"
+                className="w-full bg-gray-600 text-white px-3 py-2 rounded text-sm border border-gray-500"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={submitSentence}
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-2 py-2 rounded text-sm font-medium transition-colors"
+                >
+                  {selectedSentence ? 'Kaydet' : 'Ekle'}
+                </button>
+                {selectedSentence && (
+                  <button
+                    onClick={toggleRetired}
+                    className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white px-2 py-2 rounded text-sm font-medium transition-colors"
+                  >
+                    {selectedSentence.retired ? 'Geri Getir' : 'Emekliye Ayır'}
+                  </button>
+                )}
+              </div>
+              {selectedSentence && (
+                <button
+                  onClick={startNewSentence}
+                  className="w-full bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded text-xs"
+                >
+                  Yeni Cümle Ekle
+                </button>
+              )}
+              {editorMessage && <div className="text-gray-300 text-xs">{editorMessage}</div>}
+            </div>
+          ) : (
+            <div className="text-gray-400 text-sm">Cümle API&apos;sine ulaşılamadı - katalog salt okunur.</div>
+          )}
+        </div>
+
+        {/* Catalog Validation */}
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-white font-medium mb-3">Katalog Doğrulama</h3>
+          <button
+            onClick={() => {
+              setCatalogReport(validateCatalog(storeCatalog ?? undefined));
+              setCatalogMessage('');
+            }}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            Kataloğu Doğrula
+          </button>
+          {catalogReport && (
+            <div className="mt-3 text-sm">
+              <div className={catalogReport.isValid ? 'text-green-400' : 'text-red-400'}>
+                {catalogReport.errorCount} hata, {catalogReport.warningCount} uyarı
+              </div>
+              {catalogReport.issues.length > 0 && (
+                <div className="max-h-40 overflow-y-auto bg-gray-600 rounded border border-gray-500 mt-2">
+                  {catalogReport.issues.map((issue, index) => (
+                    <div key={index} className="p-2 text-xs border-b border-gray-500 last:border-b-0">
+                      <span className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                        #{issue.sentenceId}
+                      </span>{' '}
+                      <span className="text-gray-300">{issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {catalogReport.issues.some(issue => issue.type === 'metadataMismatch') && (
+                <button
+                  onClick={async () => {
+                    // Türetilmiş alanları düzeltilmiş katalog sentences.json yerine yapıştırılabilir
+                    try {
+                      await navigator.clipboard.writeText(JSON.stringify(recomputeCatalog(storeCatalog ?? undefined), null, 2));
+                      setCatalogMessage('Düzeltilmiş katalog kopyalandı!');
+                    } catch {
+                      setCatalogMessage('Kopyalanamadı.');
+                    }
+                  }}
+                  className="w-full bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded text-xs mt-2"
+                >
+                  Düzeltilmiş JSON&apos;u Kopyala
+                </button>
+              )}
+              {catalogMessage && <div className="text-gray-400 text-xs mt-1">{catalogMessage}</div>}
+            </div>
+          )}
+        </div>
+
         {/* Test Controls */}
         <div className="bg-gray-700 rounded-lg p-4">
           <h3 className="text-white font-medium mb-3">Test Kontrolleri</h3>
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { StoreResult, authorizeAdmin, parseSentenceChanges, retireSentence, updateSentence } from '@/lib/sentenceStore';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function getStatus(result: StoreResult): number {
+  if (result.success) return 200;
+  if (result.storeError) return 500;
+  return result.notFound ? 404 : 400;
+}
+
+/**
+ * PUT /api/sentences/:id - edit, re-categorize, retire or restore a sentence (admin only)
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const denied = authorizeAdmin(request);
+  if (denied) return NextResponse.json(denied.result, { status: denied.status });
+
+  const id = Number((await params).id);
+  const body = await request.json().catch(() => null);
+  const result = await updateSentence(id, parseSentenceChanges(body));
+  return NextResponse.json(result, { status: getStatus(result) });
+}
+
+/**
+ * DELETE /api/sentences/:id - retire a sentence (it is never removed from the store; admin only)
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = authorizeAdmin(request);
+  if (denied) return NextResponse.json(denied.result, { status: denied.status });
+
+  const id = Number((await params).id);
+  const result = await retireSentence(id);
+  return NextResponse.json(result, { status: getStatus(result) });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, createSentence, parseSentenceChanges, readSentenceStore } from '@/lib/sentenceStore';
+
+/**
+ * GET /api/sentences - full catalog including retired sentences
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await readSentenceStore());
+  } catch {
+    return NextResponse.json({ success: false, message: 'Cümle deposu okunamadı.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/sentences - add a sentence (admin only)
+ */
+export async function POST(request: Request) {
+  const denied = authorizeAdmin(request);
+  if (denied) return NextResponse.json(denied.result, { status: denied.status });
+
+  const body = await request.json().catch(() => null);
+  const result = await createSentence(parseSentenceChanges(body));
+  return NextResponse.json(result, { status: result.success ? 201 : result.storeError ? 500 : 400 });
+}
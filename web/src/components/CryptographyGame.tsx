@@ -3,29 +3,56 @@
 import { useState, useEffect, useCallback } from 'react';
 import { 
   GameState, 
-  initializeGame, 
-  makeGuess, 
-  getRemainingTime, 
+  type PuzzleOptions,
+  CIPHER_ALPHABET,
+  getAssignmentConflicts,
+  getCipherTokens,
   formatTime,
-  useHint,
+  getElapsedTime,
   type Sentence,
   type ProgressiveGameState,
   type GameResult,
+  type ProgressiveSelection,
   initializeProgressiveGame,
-  getNextProgressiveSentence,
+  drawProgressiveGame,
   recordGameResult,
   getSentenceById,
-  initializeCustomGame
+  findSentenceId,
+  getSolutionText,
+  buildPuzzle
 } from '@/lib/cipher';
+import { getDailyDateKey, hasPlayedDaily, initializeDailyGame, markDailyStarted, recordDailyResult } from '@/lib/daily';
+import { type GameMode, clearSession, loadSession, saveSession } from '@/lib/storage';
+import { getReplayData } from '@/lib/replay';
+import { applyAmbiguityPolicy } from '@/lib/ambiguity';
+import { type RatingState, applyRatingResult, initializeRatings, loadRatings, resetRatings, saveRatings } from '@/lib/rating';
+import { type SentenceHistory, initializeHistory, loadHistory, recordSentencePlayed, resetHistory, saveHistory } from '@/lib/scheduler';
+import { syncSentenceCatalog } from '@/lib/sentenceApi';
+import { getLetterGroups } from '@/lib/tokenizer';
+import { getCategoryPacks, loadSelectedCategories, saveSelectedCategories } from '@/lib/categories';
+import { SHARE_QUERY_PARAM, type SharedPuzzle, buildShareUrl, decodePuzzle, initializeSharedGame } from '@/lib/share';
+import {
+  type EngineState,
+  type GameAction,
+  createEngineState,
+  getAdjacentSelectablePosition,
+  getGameOverReason,
+  getUndoableMoveIndex,
+  isPaused,
+  reduce
+} from '@/lib/engine';
 import VirtualKeyboard from './VirtualKeyboard';
 
 interface CryptographyGameProps {
   // Progressive difficulty system - no manual difficulty selection
 }
 
+// Admin test oyunlarında seçilen şifre ailesi, kelime sınırı ve doldurma modu
+type CustomGameOptions = Pick<PuzzleOptions, 'cipher' | 'hideWordBoundaries' | 'fillMode'>;
+
 interface LetterBoxProps {
   letter: string;
-  number: number;
+  token: string; // Şifre ailesine göre sayı, harf, koordinat veya sembol
   isRevealed: boolean;
   onClick: () => void;
   isSelected: boolean;
@@ -34,9 +61,11 @@ interface LetterBoxProps {
   isWrongGuess?: boolean;
   isWrongGuessEffect?: boolean;
   isJustRevealed?: boolean;
+  filledLetter?: string; // Doldurma modunda tokena atanmış (henüz kontrol edilmemiş) harf
+  isConflict?: boolean; // Aynı harf başka bir tokena da atanmış
 }
 
-function LetterBox({ letter, number, isRevealed, onClick, isSelected, currentGuess, isUserRevealed, isWrongGuess, isWrongGuessEffect, isJustRevealed }: LetterBoxProps) {
+function LetterBox({ letter, token, isRevealed, onClick, isSelected, currentGuess, isUserRevealed, isWrongGuess, isWrongGuessEffect, isJustRevealed, filledLetter, isConflict }: LetterBoxProps) {
   // Get color based on state
   const getCircleColor = () => {
     if (isWrongGuessEffect) return 'var(--game-red)';
@@ -44,6 +73,7 @@ function LetterBox({ letter, number, isRevealed, onClick, isSelected, currentGue
     if (isRevealed && isUserRevealed && isWrongGuess) return 'var(--game-red)';
     if (isRevealed) return 'var(--game-light-gray)';
     if (isSelected) return 'var(--game-blue)';
+    if (isConflict) return 'var(--game-orange)';
     return 'var(--game-light-gray)';
   };
 
@@ -78,10 +108,10 @@ function LetterBox({ letter, number, isRevealed, onClick, isSelected, currentGue
         }}
       >
         <span className="text-lg font-bold transition-all duration-200">
-          {isRevealed ? letter : (isSelected ? (currentGuess || '_') : '_')}
+          {isRevealed ? letter : (isSelected ? (currentGuess || filledLetter || '_') : (filledLetter || '_'))}
         </span>
       </button>
-      {/* Show number below the box */}
+      {/* Show the cipher token below the box */}
       {(!isRevealed || (isRevealed && isUserRevealed)) && (
         <div 
           className="text-xs font-bold" 
@@ -94,7 +124,7 @@ function LetterBox({ letter, number, isRevealed, onClick, isSelected, currentGue
             justifyContent: 'center'
           }}
         >
-          {number}
+          {token}
         </div>
       )}
     </div>
@@ -102,85 +132,174 @@ function LetterBox({ letter, number, isRevealed, onClick, isSelected, currentGue
 }
 
 export default function CryptographyGame() {
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [engineState, setEngineState] = useState<EngineState | null>(null);
   const [progressiveState, setProgressiveState] = useState<ProgressiveGameState>(initializeProgressiveGame());
-  const [selectedLetterIndex, setSelectedLetterIndex] = useState<number | null>(null);
   const [currentGuess, setCurrentGuess] = useState('');
   const [message, setMessage] = useState('');
-  const [timeLeft, setTimeLeft] = useState(0);
   const [showNewGameConfirm, setShowNewGameConfirm] = useState(false);
   const [showSuccessPopup, setShowSuccessPopup] = useState(false);
   const [wrongGuessIndex, setWrongGuessIndex] = useState<number | null>(null);
   const [showVirtualKeyboard, setShowVirtualKeyboard] = useState(true); // Always show on web
   const [justRevealedIndex, setJustRevealedIndex] = useState<number | null>(null);
   const [userFoundLetters, setUserFoundLetters] = useState<Set<string>>(new Set()); // Kullanıcının doğru bulduğu harfler
+  const [gameMode, setGameMode] = useState<GameMode>('progressive');
+  const [dailyDateKey, setDailyDateKey] = useState<string | null>(null); // Oynanan günlük şifrenin tarihi
+  const [dailyPlayed, setDailyPlayed] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [isRestored, setIsRestored] = useState(false); // Kayıtlı oturum yüklenmeden kaydetme yapılmaz
+  const [ratings, setRatings] = useState<RatingState>(initializeRatings());
+  const [sentenceHistory, setSentenceHistory] = useState<SentenceHistory>(initializeHistory());
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]); // Boş ise tüm kategoriler
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [dialogPausedGame, setDialogPausedGame] = useState(false); // Açık diyalog oyunu kendisi mi duraklattı
+
+  // Oyun kuralları engine'de; bileşen yalnızca aksiyon gönderir
+  const gameState = engineState?.game ?? null;
+  const selectedLetterIndex = engineState?.selectedIndex ?? null;
+  const timeLeft = engineState?.remainingTime ?? 0;
 
   // Initialize game with progressive difficulty
-  const startNewGame = useCallback(() => {
-    const nextSentence = getNextProgressiveSentence(progressiveState);
-    const newGame = initializeGame(nextSentence.difficulty);
+  const startNewGame = useCallback((
+    currentProgressiveState: ProgressiveGameState = progressiveState,
+    selection: ProgressiveSelection = { ratings, history: sentenceHistory, categories: selectedCategories }
+  ) => {
+    const draw = drawProgressiveGame(currentProgressiveState, selection);
+    const newGame = applyAmbiguityPolicy(buildPuzzle(draw.sentence, { seed: draw.seed }));
+    setProgressiveState(draw.progressiveState);
+    setGameMode('progressive');
+    setDailyDateKey(null);
     setUserFoundLetters(new Set()); // Yeni oyunda kullanıcı bulunan harfleri temizle
-    setGameState(newGame);
-    setSelectedLetterIndex(null);
+    setEngineState(createEngineState(newGame));
     setCurrentGuess('');
     setMessage('');
-    setTimeLeft(newGame.timeLimit);
     
     // Dispatch events for test screen
     window.dispatchEvent(new CustomEvent('gameStateChange', { detail: newGame }));
-    window.dispatchEvent(new CustomEvent('progressiveStateChange', { detail: progressiveState }));
-  }, [progressiveState]);
+    window.dispatchEvent(new CustomEvent('progressiveStateChange', { detail: draw.progressiveState }));
+  }, [progressiveState, ratings, sentenceHistory, selectedCategories]);
 
   // Initialize game with custom sentence
-  const startCustomGame = useCallback((sentenceId: number) => {
+  const startCustomGame = useCallback((sentenceId: number, options: CustomGameOptions = {}) => {
     const customSentence = getSentenceById(sentenceId);
     if (!customSentence) return;
     
-    const newGame = initializeCustomGame(customSentence);
+    const newGame = applyAmbiguityPolicy(buildPuzzle(customSentence, options));
+    setGameMode('practice');
+    setDailyDateKey(null);
     setUserFoundLetters(new Set()); // Yeni oyunda kullanıcı bulunan harfleri temizle
-    setGameState(newGame);
-    setSelectedLetterIndex(null);
+    setEngineState(createEngineState(newGame, Date.now(), true));
     setCurrentGuess('');
     setMessage('');
-    setTimeLeft(newGame.timeLimit);
     
     // Dispatch events for test screen
     window.dispatchEvent(new CustomEvent('gameStateChange', { detail: newGame }));
     window.dispatchEvent(new CustomEvent('progressiveStateChange', { detail: progressiveState }));
   }, [progressiveState]);
 
-  // Auto-select first available letter when game starts
-  useEffect(() => {
-    if (gameState && !gameState.isGameOver && selectedLetterIndex === null) {
-      // Trigger a re-render to select first letter
-      setSelectedLetterIndex(0); // Will be corrected by the component logic
+  // Initialize the daily puzzle - same board for every player on the same Istanbul date
+  const startDailyGame = useCallback(() => {
+    const dateKey = getDailyDateKey();
+    if (hasPlayedDaily(dateKey)) {
+      // Tekrar oynamak istatistiklere sayılmasın diye günlük şifre yalnızca bir kez oynanır
+      setDailyPlayed(true);
+      setMessage('Günün şifresini bugün zaten oynadınız. Yarın yeni şifre sizi bekliyor!');
+      return;
     }
-  }, [gameState, selectedLetterIndex]);
+    
+    const newGame = initializeDailyGame(dateKey);
+    // Başlarken işaretlenir: sayfayı yenilemek ya da yarıda bırakmak ikinci bir deneme vermez
+    markDailyStarted(dateKey);
+    setDailyPlayed(true);
+    setGameMode('daily');
+    setDailyDateKey(dateKey);
+    setUserFoundLetters(new Set());
+    setEngineState(createEngineState(newGame));
+    setCurrentGuess('');
+    setMessage('');
+  }, []);
 
-  // Fix selection cursor after hint usage
-  useEffect(() => {
-    if (gameState && selectedLetterIndex !== null) {
-      // Eğer seçili harf artık kullanıcı tarafından açılmışsa, seçimi kaldır
-      if (gameState.userRevealedPositions.has(selectedLetterIndex)) {
-        setSelectedLetterIndex(null);
-      }
+  // Initialize game from a shared puzzle link
+  const startSharedGame = useCallback((puzzle: SharedPuzzle) => {
+    const newGame = initializeSharedGame(puzzle);
+    setGameMode('shared');
+    setDailyDateKey(null);
+    setUserFoundLetters(new Set());
+    setEngineState(createEngineState(newGame, Date.now(), true));
+    setCurrentGuess('');
+    setMessage('');
+  }, []);
+
+  // Copy a link to the current board
+  const handleShare = useCallback(async () => {
+    if (!gameState) return;
+    
+    const shareUrl = buildShareUrl(gameState, window.location.href);
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setMessage('Bulmaca bağlantısı kopyalandı!');
+    } catch {
+      setMessage('Bağlantı kopyalanamadı.');
     }
-  }, [gameState?.userRevealedPositions, selectedLetterIndex]);
+  }, [gameState]);
 
+  // Add or remove a category from the progressive pool (null selects every category)
+  const toggleCategory = useCallback((category: string | null) => {
+    const nextCategories = category === null
+      ? []
+      : selectedCategories.includes(category)
+        ? selectedCategories.filter(key => key !== category)
+        : [...selectedCategories, category];
+    setSelectedCategories(nextCategories);
+    saveSelectedCategories(nextCategories);
+  }, [selectedCategories]);
+
+  // Check whether today's daily puzzle was already played
+  useEffect(() => {
+    setDailyPlayed(hasPlayedDaily());
+  }, []);
 
   // Handle game completion
-  const handleGameCompletion = useCallback((isWon: boolean) => {
-    if (!gameState) return;
-    
+  const handleGameCompletion = useCallback((finishedGame: GameState) => {
+    const isWon = finishedGame.isWon;
+    const sentenceId = findSentenceId(finishedGame.originalSentence);
     const gameResult: GameResult = {
       sentenceNumber: progressiveState.currentSentenceNumber,
-      difficulty: gameState.difficulty,
+      ...(sentenceId !== null ? { sentenceId } : {}),
+      difficulty: finishedGame.difficulty,
       isWon,
-      mistakes: gameState.mistakes,
-      hintsUsed: gameState.hintsUsed,
-      timeSpent: Math.floor((Date.now() - gameState.startTime) / 1000)
+      mistakes: finishedGame.mistakes,
+      hintsUsed: finishedGame.hintsUsed,
+      timeSpent: Math.floor(getElapsedTime(finishedGame) / 1000),
+      ...getReplayData(finishedGame)
     };
     
+    // Geri almanın açık olduğu pratik ve paylaşılan oyunlar rating'i etkilemez
+    if ((gameMode === 'progressive' || gameMode === 'daily') && sentenceId !== null) {
+      const updatedRatings = applyRatingResult(ratings, { id: sentenceId, difficulty: finishedGame.difficulty }, gameResult);
+      setRatings(updatedRatings);
+      saveRatings(updatedRatings);
+      window.dispatchEvent(new CustomEvent('ratingsChange', { detail: updatedRatings }));
+      
+      // Görülen cümle bir sonraki seçimlerde tekrar edilmez
+      const updatedHistory = recordSentencePlayed(sentenceHistory, sentenceId, isWon);
+      setSentenceHistory(updatedHistory);
+      saveHistory(updatedHistory);
+      window.dispatchEvent(new CustomEvent('sentenceHistoryChange', { detail: updatedHistory }));
+    }
+    
+    if (gameMode !== 'progressive') {
+      // Günlük, paylaşılan ve pratik bulmacalar progresif sistemi etkilemez
+      if (gameMode === 'daily' && dailyDateKey) {
+        recordDailyResult(dailyDateKey, gameResult);
+        setDailyPlayed(true);
+      }
+      window.dispatchEvent(new CustomEvent('gameResult', { detail: gameResult }));
+      if (isWon) {
+        setShowSuccessPopup(true);
+      }
+      return;
+    }
+    
     const updatedProgressiveState = recordGameResult(progressiveState, gameResult);
     setProgressiveState(updatedProgressiveState);
     
@@ -192,7 +311,52 @@ export default function CryptographyGame() {
     if (isWon) {
       setShowSuccessPopup(true);
     }
-  }, [gameState, progressiveState]);
+  }, [progressiveState, gameMode, dailyDateKey, ratings, sentenceHistory]);
+
+  // Send an action to the engine and run the UI side effects of its result
+  const dispatch = useCallback((action: GameAction) => {
+    if (!engineState) return;
+    
+    const nextState = reduce(engineState, action);
+    if (nextState === engineState) return;
+    setEngineState(nextState);
+    
+    const event = nextState.lastEvent;
+    if (event?.type === 'correct') {
+      // Show correct guess animation
+      setJustRevealedIndex(event.index);
+      // Kullanıcının doğru bulduğu harfi ekle (sadece kullanıcı bulduğu için)
+      setUserFoundLetters(prev => new Set([...prev, event.letter]));
+      setTimeout(() => {
+        setJustRevealedIndex(null);
+      }, 600);
+    } else if (event?.type === 'wrong') {
+      // Show wrong guess effect
+      setWrongGuessIndex(event.index);
+      if (nextState.game.fillMode && !nextState.game.isGameOver) {
+        setMessage('Tüm harfler atandı ama bazıları yanlış, bir hata sayıldı.');
+      }
+      setTimeout(() => {
+        setWrongGuessIndex(null);
+      }, 800); // Animasyon süresi ile eşleştir
+    } else if (event?.type === 'hintRejected') {
+      setMessage(event.message);
+    } else if (event?.type === 'undo' && event.move.type === 'guess') {
+      // Geri alınan harf başka bir yerde bulunmadıysa klavyedeki işaretini kaldır
+      const undoneLetter = event.move.letter;
+      const stillFound = nextState.game.moveLog.some(move =>
+        move.type === 'guess' && move.isCorrect && !move.undone && move.letter === undoneLetter
+      );
+      if (!stillFound) {
+        setUserFoundLetters(prev => new Set([...prev].filter(letter => letter !== undoneLetter)));
+      }
+    }
+    
+    // Check if game is completed
+    if (!engineState.game.isGameOver && nextState.game.isGameOver) {
+      handleGameCompletion(nextState.game);
+    }
+  }, [engineState, handleGameCompletion]);
 
   // Handle next game button
   const handleNextGame = useCallback(() => {
@@ -200,11 +364,79 @@ export default function CryptographyGame() {
     startNewGame();
   }, [startNewGame]);
 
-  // Start game on component mount
+  // Start game on component mount, once the sentence store is loaded - a ?puzzle= link boots
+  // straight into the shared board, otherwise the saved session (if any) is resumed
   useEffect(() => {
-    startNewGame();
+    let isCancelled = false;
+    
+    const boot = () => {
+      const savedRatings = loadRatings();
+      setRatings(savedRatings);
+      window.dispatchEvent(new CustomEvent('ratingsChange', { detail: savedRatings }));
+      const savedHistory = loadHistory();
+      setSentenceHistory(savedHistory);
+      window.dispatchEvent(new CustomEvent('sentenceHistoryChange', { detail: savedHistory }));
+      const savedCategories = loadSelectedCategories();
+      setSelectedCategories(savedCategories);
+      const savedSelection = { ratings: savedRatings, history: savedHistory, categories: savedCategories };
+      const savedSession = loadSession();
+      const restoredProgressiveState = savedSession?.progressiveState ?? progressiveState;
+      if (savedSession) {
+        setProgressiveState(restoredProgressiveState);
+      }
+      setIsRestored(true);
+      
+      const shareCode = new URLSearchParams(window.location.search).get(SHARE_QUERY_PARAM);
+      if (shareCode) {
+        // Bağlantı bir kez okunur, sonraki yeni oyunlar normal akışta devam eder
+        window.history.replaceState(null, '', window.location.pathname);
+        const decoded = decodePuzzle(shareCode);
+        if (decoded.success && decoded.puzzle) {
+          startSharedGame(decoded.puzzle);
+        } else {
+          startNewGame(restoredProgressiveState, savedSelection);
+          setMessage(decoded.message);
+        }
+        return;
+      }
+      
+      const savedGame = savedSession?.gameState;
+      if (savedSession && savedGame && !savedGame.isGameOver) {
+        setGameMode(savedSession.gameMode);
+        setDailyDateKey(savedSession.dailyDateKey);
+        setUserFoundLetters(savedSession.userFoundLetters);
+        setEngineState(createEngineState(savedGame, Date.now(), savedSession.gameMode === 'practice' || savedSession.gameMode === 'shared'));
+        window.dispatchEvent(new CustomEvent('progressiveStateChange', { detail: restoredProgressiveState }));
+        return;
+      }
+      
+      startNewGame(restoredProgressiveState, savedSelection);
+    };
+    
+    syncSentenceCatalog().finally(() => {
+      if (!isCancelled) boot();
+    });
+    return () => {
+      isCancelled = true;
+    };
   }, []); // Empty dependency array - only run on mount
 
+  // Save progressive state and current board; the elapsed time is taken at the moment of saving
+  const saveCurrentSession = useCallback(() => {
+    if (!isRestored) return;
+    setSaveFailed(!saveSession({ progressiveState, gameState, gameMode, dailyDateKey, userFoundLetters }));
+  }, [isRestored, progressiveState, gameState, gameMode, dailyDateKey, userFoundLetters]);
+
+  // Auto-save on every move, pause and new game (the clock ticking alone does not change gameState)
+  useEffect(() => {
+    saveCurrentSession();
+  }, [saveCurrentSession]);
+
+  // Kayıt başarısız olursa oyuncu bilgilendirilir (oyun kayıtsız devam eder)
+  useEffect(() => {
+    if (saveFailed) setMessage('Oyun kaydedilemedi: tarayıcı depolama alanı dolu veya kapalı.');
+  }, [saveFailed]);
+
   // Dispatch game state changes
   useEffect(() => {
     if (gameState) {
@@ -215,24 +447,43 @@ export default function CryptographyGame() {
   // Listen for custom events from test screen
   useEffect(() => {
     const handleResetGame = () => {
-      setProgressiveState(initializeProgressiveGame());
-      startNewGame();
+      const freshProgressiveState = initializeProgressiveGame();
+      clearSession();
+      setProgressiveState(freshProgressiveState);
+      startNewGame(freshProgressiveState);
     };
 
     const handleStartNewGame = () => {
       startNewGame();
     };
 
-    const handleStartCustomGame = (event: CustomEvent<{ sentenceId: number }>) => {
-      startCustomGame(event.detail.sentenceId);
+    const handleStartCustomGame = (event: CustomEvent<{ sentenceId: number } & CustomGameOptions>) => {
+      const { sentenceId, ...options } = event.detail;
+      startCustomGame(sentenceId, options);
+    };
+
+    const handleResetRatings = () => {
+      const freshRatings = resetRatings();
+      setRatings(freshRatings);
+      window.dispatchEvent(new CustomEvent('ratingsChange', { detail: freshRatings }));
+    };
+
+    const handleResetHistory = () => {
+      const freshHistory = resetHistory();
+      setSentenceHistory(freshHistory);
+      window.dispatchEvent(new CustomEvent('sentenceHistoryChange', { detail: freshHistory }));
     };
 
     window.addEventListener('resetGame', handleResetGame);
+    window.addEventListener('resetRatings', handleResetRatings);
+    window.addEventListener('resetHistory', handleResetHistory);
     window.addEventListener('startNewGame', handleStartNewGame);
     window.addEventListener('startCustomGame', handleStartCustomGame as EventListener);
 
     return () => {
       window.removeEventListener('resetGame', handleResetGame);
+      window.removeEventListener('resetRatings', handleResetRatings);
+      window.removeEventListener('resetHistory', handleResetHistory);
       window.removeEventListener('startNewGame', handleStartNewGame);
       window.removeEventListener('startCustomGame', handleStartCustomGame as EventListener);
     };
@@ -240,201 +491,84 @@ export default function CryptographyGame() {
 
   // Timer effect
   useEffect(() => {
-    if (!gameState || gameState.isGameOver || gameState.timeLimit === 0) return;
+    if (!gameState || gameState.isGameOver || gameState.timeLimit === 0 || isPaused(gameState)) return;
 
     const timer = setInterval(() => {
-      const remaining = getRemainingTime(gameState);
-      setTimeLeft(remaining);
-      
-      if (remaining <= 0) {
-        setGameState(prev => prev ? { ...prev, isGameOver: true, isWon: false } : null);
-        handleGameCompletion(false);
-      }
+      dispatch({ type: 'TICK', now: Date.now() });
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [gameState]);
+  }, [gameState, dispatch]);
+
+  // Sekme gizlenince oyun duraklar; devam etmek oyuncunun elinde
+  // Sayfa bir daha görünmeden kapanabileceği için geçen süre render beklenmeden hemen kaydedilir
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden) return;
+      saveCurrentSession();
+      dispatch({ type: 'PAUSE' });
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', saveCurrentSession);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', saveCurrentSession);
+    };
+  }, [dispatch, saveCurrentSession]);
+
+  // Pause or resume the clock
+  const togglePause = useCallback(() => {
+    dispatch({ type: gameState && isPaused(gameState) ? 'RESUME' : 'PAUSE' });
+  }, [dispatch, gameState]);
+
+  // Diyalog açıkken süre işlemez; kapanınca oyun yalnızca duraklatmayı diyalog yaptıysa devam eder
+  const pauseForDialog = useCallback(() => {
+    setDialogPausedGame(gameState !== null && !isPaused(gameState));
+    dispatch({ type: 'PAUSE' });
+  }, [dispatch, gameState]);
+
+  const resumeAfterDialog = useCallback(() => {
+    if (dialogPausedGame) dispatch({ type: 'RESUME' });
+  }, [dispatch, dialogPausedGame]);
 
   // Handle hint
   const handleHint = useCallback(() => {
-    if (!gameState || gameState.isGameOver) return;
-    
-    const hintResult = useHint(gameState, progressiveState);
-    
-    if (hintResult.success && hintResult.revealedPositions) {
-      setGameState(prev => {
-        if (!prev) return null;
-        
-        const newUserRevealedPositions = new Set(prev.userRevealedPositions);
-        hintResult.revealedPositions!.forEach(position => {
-          newUserRevealedPositions.add(position);
-        });
-        
-        const newState = {
-          ...prev,
-          userRevealedPositions: newUserRevealedPositions,
-          hintsUsed: prev.hintsUsed + 1
-        };
-        
-        // Check if game is completed after hint
-        if (hintResult.isGameCompleted) {
-          newState.isWon = true;
-          newState.isGameOver = true;
-        }
-        
-        return newState;
-      });
-      
-      // If game completed, trigger completion handler
-      if (hintResult.isGameCompleted) {
-        setTimeout(() => {
-          handleGameCompletion(true);
-        }, 100);
-      } else {
-        // Seçim imlecini otomatik olarak sonraki seçilebilir harfe taşı
-        // useEffect ile kontrol edilecek
-      }
-    }
-  }, [gameState]);
+    dispatch({ type: 'HINT', progressiveState });
+  }, [dispatch, progressiveState]);
+
+  // Handle undo (practice and shared puzzles only)
+  const handleUndo = useCallback(() => {
+    dispatch({ type: 'UNDO' });
+  }, [dispatch]);
 
   // Handle letter box click
   const handleLetterClick = (index: number) => {
-    if (!gameState || gameState.isGameOver) return;
-    
-    // Check if this letter is already revealed (correctly guessed)
-    const letterBoxes = getLetterBoxes();
-    const targetBox = letterBoxes.find(box => box.index === index);
-    
-    if (targetBox && targetBox.isRevealed) {
-      // Don't allow clicking on already revealed letters
-      return;
-    }
-    
-    setSelectedLetterIndex(index);
+    // Engine already-revealed kutuların seçilmesine izin vermez
+    dispatch({ type: 'SELECT', index });
     setCurrentGuess('');
-    // Keyboard is always visible, no need to show/hide
   };
 
   // Handle virtual keyboard input
   const handleVirtualKeyPress = (key: string) => {
-    if (!gameState || gameState.isGameOver) return;
-    
-    // If no letter is selected, select the first available letter
-    if (selectedLetterIndex === null) {
-      const availableLetters = letterBoxes.filter(box => !box.isSpace && !box.isRevealed);
-      if (availableLetters.length > 0) {
-        setSelectedLetterIndex(availableLetters[0].index);
-      } else {
-        return; // No available letters
-      }
-    }
-    
     // Process the letter directly
-    if (key.length === 1 && /[A-ZÇĞIİÖŞÜ]/.test(key)) {
+    if (key.length === 1 && CIPHER_ALPHABET.includes(key)) {
       processGuess(key);
     }
   };
 
   // Handle direction button press
   const handleDirectionPress = (direction: 'left' | 'right') => {
-    if (!gameState || gameState.isGameOver) return;
-    
-    const availableLetters = letterBoxes.filter(box => !box.isSpace && !box.isRevealed);
-    if (availableLetters.length === 0) return;
-    
-    if (selectedLetterIndex === null) {
-      // If no letter selected, select first available
-      setSelectedLetterIndex(availableLetters[0].index);
-      return;
-    }
-    
-    const currentIndex = availableLetters.findIndex(box => box.index === selectedLetterIndex);
-    if (currentIndex === -1) return;
+    if (!gameState) return;
     
-    let newIndex;
-    if (direction === 'left') {
-      newIndex = currentIndex > 0 ? currentIndex - 1 : availableLetters.length - 1;
-    } else {
-      newIndex = currentIndex < availableLetters.length - 1 ? currentIndex + 1 : 0;
+    const nextIndex = getAdjacentSelectablePosition(gameState, selectedLetterIndex, direction);
+    if (nextIndex !== null) {
+      dispatch({ type: 'SELECT', index: nextIndex });
     }
-    
-    setSelectedLetterIndex(availableLetters[newIndex].index);
   };
 
-  // Process guess with delay for visual feedback
+  // Process guess - cursor movement and completion are handled by the engine
   const processGuess = (guess: string) => {
-    if (!gameState || selectedLetterIndex === null) return;
-    
-    const result = makeGuess(gameState, guess, gameState.difficulty, selectedLetterIndex);
-    setGameState(result.newState);
-    
-    // Show animations based on result
-    if (result.success) {
-      // Show correct guess animation
-      setJustRevealedIndex(selectedLetterIndex);
-      // Kullanıcının doğru bulduğu harfi ekle (sadece kullanıcı bulduğu için)
-      const guessedLetter = guess.toUpperCase();
-      setUserFoundLetters(prev => new Set([...prev, guessedLetter]));
-      setTimeout(() => {
-        setJustRevealedIndex(null);
-      }, 600);
-    } else {
-      // Show wrong guess effect
-      setWrongGuessIndex(selectedLetterIndex);
-      setTimeout(() => {
-        setWrongGuessIndex(null);
-      }, 800); // Animasyon süresi ile eşleştir
-    }
-    
-    // Check if game is completed
-    if (result.newState.isGameOver) {
-      if (result.newState.isWon) {
-        handleGameCompletion(true);
-      } else {
-        handleGameCompletion(false);
-      }
-    }
-    
-    // Handle cursor movement after guess
-    if (result.success) {
-      // Correct guess - move to next empty box
-      setTimeout(() => {
-        const currentLetterBoxes = getLetterBoxes();
-        
-        // Find current position in ALL letter boxes (not just available ones)
-        const currentBoxIndex = currentLetterBoxes.findIndex(box => box.index === selectedLetterIndex);
-        
-        if (currentBoxIndex !== -1) {
-          // Look for next empty box to the right
-          let nextEmptyIndex = -1;
-          for (let i = currentBoxIndex + 1; i < currentLetterBoxes.length; i++) {
-            const box = currentLetterBoxes[i];
-            if (!box.isSpace && !box.isRevealed) {
-              nextEmptyIndex = box.index;
-              break;
-            }
-          }
-          
-          // If no empty box found to the right, wrap around to the beginning
-          if (nextEmptyIndex === -1) {
-            for (let i = 0; i < currentBoxIndex; i++) {
-              const box = currentLetterBoxes[i];
-              if (!box.isSpace && !box.isRevealed) {
-                nextEmptyIndex = box.index;
-                break;
-              }
-            }
-          }
-          
-          // Set the next empty box as selected
-          if (nextEmptyIndex !== -1) {
-            setSelectedLetterIndex(nextEmptyIndex);
-          }
-        }
-      }, 100);
-    }
-    // Wrong guess - keep selection box on current position (no action needed)
-    
+    dispatch({ type: 'GUESS', letter: guess });
     setCurrentGuess('');
   };
 
@@ -452,18 +586,11 @@ export default function CryptographyGame() {
       
       if (selectedLetterIndex === null) return;
       
-      // Normalize for display (keep Turkish characters)
-      let key = e.key.toUpperCase();
-      
-      // Convert Turkish characters for display
-      if (key === 'I' && e.key === 'i') {
-        key = 'İ'; // Turkish uppercase i
-      } else if (key === 'I' && e.key === 'ı') {
-        key = 'I'; // Turkish uppercase ı
-      }
+      // Normalize for display (keep Turkish characters: i → İ, ı → I)
+      const key = e.key.normalize('NFC').toLocaleUpperCase('tr-TR');
       
-      // Only accept letters (A-Z, Turkish characters)
-      if (key.length === 1 && /[A-ZÇĞIİÖŞÜ]/.test(key)) {
+      // Only accept characters of the cipher alphabet (letters, accented letters, digits)
+      if (key.length === 1 && CIPHER_ALPHABET.includes(key)) {
         // Use the same logic as virtual keyboard
         processGuess(key);
       }
@@ -471,20 +598,23 @@ export default function CryptographyGame() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [gameState, selectedLetterIndex]);
+  }, [gameState, selectedLetterIndex, dispatch]);
 
 
   // BASIT KUTU SİSTEMİ - KELİME BÜTÜNLÜĞÜ KORUNUR
   const getLetterBoxes = () => {
     if (!gameState) return [];
     
-    // Orijinal cümleyi kelimelere ayır
-    const words = gameState.originalSentence.split(' ');
+    // Orijinal cümleyi kelimelere (kelime sınırları gizliyse sabit gruplara) ayır - pozisyonlar tokenizer'dan gelir
+    const groups = getLetterGroups(getSolutionText(gameState), gameState.groupSize);
+    const cipherTokens = getCipherTokens(gameState);
+    const conflicts = getAssignmentConflicts(gameState);
     
-    let letterIndex = 0;
     const boxes: Array<{
       letter: string;
-      number: number | null;
+      token: string;
+      filledLetter?: string;
+      isConflict?: boolean;
       isRevealed: boolean;
       index: number;
       isWordStart?: boolean;
@@ -493,61 +623,31 @@ export default function CryptographyGame() {
       wordIndex?: number;
     }> = [];
     
-    words.forEach((word, wordIndex) => {
-      // Her kelime için harfleri işle
-      for (let i = 0; i < word.length; i++) {
-        const char = word[i];
-        
-        // Özel karakterleri atla (apostrof, nokta, virgül vs.)
-        if (char === '\'' || char === '.' || char === ',' || char === '!' || char === '?' || char === ':' || char === ';' || char === '-') {
-          continue; // Bu karakterler için kutu oluşturma
-        }
-        
-        // Keep Turkish characters for display
-        const letter = char
-          .replace(/i/g, 'İ')  // i → İ (Turkish uppercase i)
-          .replace(/ı/g, 'I')  // ı → I (Turkish uppercase ı)
-          .toUpperCase();
-        // Try Turkish character first, then normalized version
-        let number = gameState.letterMapping.get(letter);
-        if (!number) {
-          const normalizedLetter = letter
-            .replace(/İ/g, 'I')
-            .replace(/ı/g, 'I')
-            .replace(/i/g, 'I')
-            .replace(/Ğ/g, 'G')
-            .replace(/ğ/g, 'G')
-            .replace(/Ü/g, 'U')
-            .replace(/ü/g, 'U')
-            .replace(/Ş/g, 'S')
-            .replace(/ş/g, 'S')
-            .replace(/Ö/g, 'O')
-            .replace(/ö/g, 'O')
-            .replace(/Ç/g, 'C')
-            .replace(/ç/g, 'C');
-          number = gameState.letterMapping.get(normalizedLetter);
-        }
+    groups.forEach((group, wordIndex) => {
+      // Her kelime için harfleri işle - özel karakterler için kutu oluşturulmaz
+      group.forEach((token, groupPosition) => {
+        const letter = token.letter;
         // Check if this position is revealed (either by initial reveal or user guess)
-        const isRevealed = gameState.initialRevealedPositions.has(letterIndex) || gameState.userRevealedPositions.has(letterIndex);
+        const isRevealed = gameState.initialRevealedPositions.has(token.position) || gameState.userRevealedPositions.has(token.position);
         
         boxes.push({
           letter,
-          number: number || null,
+          token: cipherTokens[token.position],
+          filledLetter: gameState.assignments.get(cipherTokens[token.position]),
+          isConflict: !isRevealed && conflicts.has(cipherTokens[token.position]),
           isRevealed,
-          index: letterIndex,
-          isWordStart: i === 0,
-          isWordEnd: i === word.length - 1,
+          index: token.position,
+          isWordStart: groupPosition === 0,
+          isWordEnd: groupPosition === group.length - 1,
           wordIndex
         });
-        
-        letterIndex++;
-      }
+      });
       
       // Kelime sonunda boşluk ekle (son kelime değilse)
-      if (wordIndex < words.length - 1) {
+      if (wordIndex < groups.length - 1) {
         boxes.push({
           letter: ' ',
-          number: null,
+          token: '',
           isRevealed: true,
           index: -1,
           isSpace: true,
@@ -559,89 +659,6 @@ export default function CryptographyGame() {
     return boxes;
   };
 
-  // Get letter boxes from a specific game state
-  const getLetterBoxesFromState = (state: GameState) => {
-    if (!state) return [];
-    
-    // Orijinal cümleyi kelimelere ayır
-    const words = state.originalSentence.split(' ');
-    
-    let letterIndex = 0;
-    const boxes: Array<{
-      letter: string;
-      number: number | null;
-      isRevealed: boolean;
-      index: number;
-      isWordStart?: boolean;
-      isWordEnd?: boolean;
-      isSpace?: boolean;
-      wordIndex?: number;
-    }> = [];
-    
-    words.forEach((word, wordIndex) => {
-      // Her kelime için harfleri işle
-      for (let i = 0; i < word.length; i++) {
-        const char = word[i];
-        
-        // Özel karakterleri atla (apostrof, nokta, virgül vs.)
-        if (char === '\'' || char === '.' || char === ',' || char === '!' || char === '?' || char === ':' || char === ';' || char === '-') {
-          continue; // Bu karakterler için kutu oluşturma
-        }
-        
-        // Keep Turkish characters for display
-        const letter = char
-          .replace(/i/g, 'İ')  // i → İ (Turkish uppercase i)
-          .replace(/ı/g, 'I')  // ı → I (Turkish uppercase ı)
-          .toUpperCase();
-        // Try Turkish character first, then normalized version
-        let number = state.letterMapping.get(letter);
-        if (!number) {
-          const normalizedLetter = letter
-            .replace(/İ/g, 'I')
-            .replace(/ı/g, 'I')
-            .replace(/i/g, 'I')
-            .replace(/Ğ/g, 'G')
-            .replace(/ğ/g, 'G')
-            .replace(/Ü/g, 'U')
-            .replace(/ü/g, 'U')
-            .replace(/Ş/g, 'S')
-            .replace(/ş/g, 'S')
-            .replace(/Ö/g, 'O')
-            .replace(/ö/g, 'O')
-            .replace(/Ç/g, 'C')
-            .replace(/ç/g, 'C');
-          number = state.letterMapping.get(normalizedLetter);
-        }
-        
-        boxes.push({
-          letter,
-          number: number || null,
-          isRevealed: state.initialRevealedPositions.has(letterIndex) || state.userRevealedPositions.has(letterIndex),
-          index: letterIndex,
-          isWordStart: i === 0,
-          isWordEnd: i === word.length - 1,
-          wordIndex
-        });
-        letterIndex++;
-      }
-      
-      // Kelime sonrası boşluk ekle (son kelime değilse)
-      if (wordIndex < words.length - 1) {
-        boxes.push({
-          letter: ' ',
-          number: null,
-          isRevealed: true,
-          index: letterIndex,
-          isSpace: true,
-          wordIndex: -1
-        });
-        letterIndex++;
-      }
-    });
-    
-    return boxes;
-  };
-
   if (!gameState) {
     return (
       <div className="mobile-container flex items-center justify-center">
@@ -655,14 +672,6 @@ export default function CryptographyGame() {
 
   const letterBoxes = getLetterBoxes();
 
-  // Auto-select first available letter when game starts (after letterBoxes is defined)
-  if (gameState && !gameState.isGameOver && selectedLetterIndex === null) {
-    const availableLetters = letterBoxes.filter(box => !box.isSpace && !box.isRevealed);
-    if (availableLetters.length > 0) {
-      setSelectedLetterIndex(availableLetters[0].index);
-    }
-  }
-
   return (
     <div className="mobile-container flex flex-col">
       {/* Mobile Header */}
@@ -683,10 +692,17 @@ export default function CryptographyGame() {
                 <div className="font-bold" style={{ color: 'var(--mobile-text-primary)' }}>{timeLeft > 0 ? formatTime(timeLeft) : '00:00'}</div>
               </div>
             )}
-            <div className="text-center">
-              <div className="text-xs" style={{ color: 'var(--mobile-text-secondary)' }}>CÜMLE</div>
-              <div className="font-bold" style={{ color: 'var(--mobile-text-primary)' }}>{progressiveState.currentSentenceNumber}</div>
-            </div>
+            {gameMode === 'daily' && dailyDateKey ? (
+              <div className="text-center">
+                <div className="text-xs" style={{ color: 'var(--mobile-text-secondary)' }}>GÜNÜN ŞİFRESİ</div>
+                <div className="font-bold" style={{ color: 'var(--mobile-text-primary)' }}>{dailyDateKey}</div>
+              </div>
+            ) : (
+              <div className="text-center">
+                <div className="text-xs" style={{ color: 'var(--mobile-text-secondary)' }}>CÜMLE</div>
+                <div className="font-bold" style={{ color: 'var(--mobile-text-primary)' }}>{progressiveState.currentSentenceNumber}</div>
+              </div>
+            )}
             <div className="text-center">
               <div className="text-xs" style={{ color: 'var(--mobile-text-secondary)' }}>HARF</div>
               <div className="font-bold" style={{ color: 'var(--mobile-text-primary)' }}>{letterBoxes.filter(b => !b.isSpace).length}</div>
@@ -700,8 +716,8 @@ export default function CryptographyGame() {
       <main className="flex-1 px-4 py-6" style={{ backgroundColor: 'var(--mobile-game-area-bg)' }}>
         {/* Error indicators */}
         <div className="flex justify-center mb-8">
-          <div className="flex space-x-2">
-            {[1, 2, 3].map((i) => (
+          <div className="flex flex-wrap justify-center gap-2">
+            {Array.from({ length: gameState.maxMistakes }, (_, i) => i + 1).map((i) => (
               <div
                 key={i}
                 className={`w-3 h-3 rounded-full ${
@@ -713,62 +729,79 @@ export default function CryptographyGame() {
         </div>
 
         {/* Cipher Display - Group Words */}
-        <div className="w-full max-w-2xl mx-auto px-4">
-          <div className="flex flex-wrap justify-center items-start gap-2">
-            {(() => {
-              const wordGroups: Array<Array<typeof letterBoxes[0]>> = [];
-              let currentWord: Array<typeof letterBoxes[0]> = [];
-              
-              letterBoxes.forEach((box) => {
-                if (box.isSpace) {
-                  if (currentWord.length > 0) {
-                    wordGroups.push([...currentWord]);
-                    currentWord = [];
+        {isPaused(gameState) ? (
+          // Duraklatılınca tahta gizlenir
+          <div className="w-full max-w-2xl mx-auto px-4 text-center py-12">
+            <div className="text-4xl mb-4">⏸️</div>
+            <p className="text-lg font-bold mb-2" style={{ color: 'var(--mobile-text-primary)' }}>Oyun Duraklatıldı</p>
+            <p className="text-sm mb-6" style={{ color: 'var(--mobile-text-secondary)' }}>Süre siz devam edene kadar işlemez.</p>
+            <button
+              onClick={togglePause}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg"
+            >
+              Devam Et
+            </button>
+          </div>
+        ) : (
+          <div className="w-full max-w-2xl mx-auto px-4">
+            <div className="flex flex-wrap justify-center items-start gap-2">
+              {(() => {
+                const wordGroups: Array<Array<typeof letterBoxes[0]>> = [];
+                let currentWord: Array<typeof letterBoxes[0]> = [];
+                
+                letterBoxes.forEach((box) => {
+                  if (box.isSpace) {
+                    if (currentWord.length > 0) {
+                      wordGroups.push([...currentWord]);
+                      currentWord = [];
+                    }
+                    wordGroups.push([box]); // Space as separate group
+                  } else {
+                    currentWord.push(box);
                   }
-                  wordGroups.push([box]); // Space as separate group
-                } else {
-                  currentWord.push(box);
+                });
+                
+                if (currentWord.length > 0) {
+                  wordGroups.push(currentWord);
                 }
-              });
-              
-              if (currentWord.length > 0) {
-                wordGroups.push(currentWord);
-              }
-              
-              return wordGroups.map((group, groupIndex) => (
-                <div key={groupIndex} className="flex gap-2 items-start">
-                  {group.map((box, boxIndex) => {
-                    if (box.isSpace) {
+                
+                return wordGroups.map((group, groupIndex) => (
+                  <div key={groupIndex} className="flex gap-2 items-start">
+                    {group.map((box, boxIndex) => {
+                      if (box.isSpace) {
+                        return (
+                          <div key={`space-${groupIndex}-${boxIndex}`} className="w-4"></div>
+                        );
+                      }
                       return (
-                        <div key={`space-${groupIndex}-${boxIndex}`} className="w-4"></div>
+                        <LetterBox
+                          key={`${groupIndex}-${boxIndex}`}
+                          letter={box.letter}
+                          token={box.token}
+                          isRevealed={box.isRevealed}
+                          onClick={() => handleLetterClick(box.index)}
+                          isSelected={selectedLetterIndex === box.index}
+                          currentGuess={currentGuess}
+                          isUserRevealed={gameState?.userRevealedPositions.has(box.index) && !gameState?.initialRevealedPositions.has(box.index)}
+                          isWrongGuessEffect={wrongGuessIndex === box.index}
+                          filledLetter={box.filledLetter}
+                          isConflict={box.isConflict}
+                          isJustRevealed={justRevealedIndex === box.index}
+                        />
                       );
-                    }
-                    return (
-                      <LetterBox
-                        key={`${groupIndex}-${boxIndex}`}
-                        letter={box.letter}
-                        number={box.number || 0}
-                        isRevealed={box.isRevealed}
-                        onClick={() => handleLetterClick(box.index)}
-                        isSelected={selectedLetterIndex === box.index}
-                        currentGuess={currentGuess}
-                        isUserRevealed={gameState?.userRevealedPositions.has(box.index) && !gameState?.initialRevealedPositions.has(box.index)}
-                        isWrongGuessEffect={wrongGuessIndex === box.index}
-                        isJustRevealed={justRevealedIndex === box.index}
-                      />
-                    );
-                  })}
-                </div>
-              ));
-            })()}
+                    })}
+                  </div>
+                ));
+              })()}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Message */}
         {message && (
           <div className="text-center mt-6">
             <div className={`inline-block px-4 py-2 rounded-lg text-sm font-medium ${
-              message.includes('Doğru') ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              message.includes('Doğru') || message.includes('kopyalandı!') ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
             }`}>
               {message}
             </div>
@@ -781,17 +814,19 @@ export default function CryptographyGame() {
             <div className="bg-gray-800 rounded-xl p-6 max-w-xs mx-4 text-center shadow-xl animate-bounce-in border border-gray-600">
               {/* Game Over Icon */}
               <div className="w-12 h-12 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
-                <div className="text-2xl">😞</div>
+                <div className="text-2xl">{getGameOverReason(gameState) === 'timeout' ? '⏰' : '😞'}</div>
               </div>
               
               {/* Title */}
               <h3 className="text-lg font-bold text-white mb-2 animate-fade-in-up">
-                Oyun Bitti!
+                {getGameOverReason(gameState) === 'timeout' ? 'Süre Doldu!' : 'Oyun Bitti!'}
               </h3>
               
               {/* Message */}
               <p className="text-gray-300 mb-4 text-sm animate-fade-in-up">
-                Çok fazla hata yaptınız.
+                {getGameOverReason(gameState) === 'timeout'
+                  ? 'Süre bitmeden cümleyi tamamlayamadınız.'
+                  : 'Çok fazla hata yaptınız.'}
               </p>
               
               {/* Correct Answer */}
@@ -800,7 +835,7 @@ export default function CryptographyGame() {
                   Doğru cümle:
                 </p>
                 <p className="text-white font-bold text-base mt-1">
-                  {gameState.originalSentence}
+                  {getSolutionText(gameState)}
                 </p>
               </div>
               
@@ -881,7 +916,10 @@ export default function CryptographyGame() {
                 Evet, Başlat
               </button>
               <button
-                onClick={() => setShowNewGameConfirm(false)}
+                onClick={() => {
+                  setShowNewGameConfirm(false);
+                  resumeAfterDialog();
+                }}
                 className="w-full bg-gray-600 hover:bg-gray-700 text-white px-4 py-3 rounded-lg font-bold text-sm transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg"
               >
                 İptal
@@ -891,6 +929,72 @@ export default function CryptographyGame() {
         </div>
       )}
 
+      {/* Category Picker Dialog */}
+      {showCategoryPicker && (
+        <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-xl p-6 max-w-sm mx-4 shadow-xl border border-gray-700 animate-bounce-in">
+            <h3 className="text-base font-bold text-white mb-2 text-center animate-fade-in-up">
+              Kategoriler
+            </h3>
+            <p className="text-gray-300 mb-4 text-center text-xs animate-fade-in-up">
+              Yeni oyunlar seçtiğin kategorilerden gelir. Sayılar görülen / toplam cümleleri gösterir.
+            </p>
+
+            <div className="flex flex-wrap justify-center gap-2 mb-6 max-h-64 overflow-y-auto">
+              <button
+                onClick={() => toggleCategory(null)}
+                className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all duration-200 ${
+                  selectedCategories.length === 0
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                Tümü
+              </button>
+              {getCategoryPacks(sentenceHistory)
+                .filter(pack => pack.sentenceCount > 0)
+                .map(pack => {
+                  const isSelected = selectedCategories.includes(pack.key);
+                  return (
+                    <button
+                      key={pack.key}
+                      onClick={() => toggleCategory(pack.key)}
+                      title={pack.description}
+                      className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all duration-200 ${
+                        isSelected ? 'text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                      style={isSelected ? { backgroundColor: pack.color } : undefined}
+                    >
+                      {pack.name} <span className="opacity-75">{pack.progress.seen}/{pack.sentenceCount}</span>
+                    </button>
+                  );
+                })}
+            </div>
+
+            <div className="space-y-2">
+              <button
+                onClick={() => {
+                  setShowCategoryPicker(false);
+                  startNewGame();
+                }}
+                className="w-full bg-blue-500 hover:bg-blue-600 text-white px-4 py-3 rounded-lg font-bold text-sm transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg"
+              >
+                Yeni Oyunla Başla
+              </button>
+              <button
+                onClick={() => {
+                  setShowCategoryPicker(false);
+                  resumeAfterDialog();
+                }}
+                className="w-full bg-gray-600 hover:bg-gray-700 text-white px-4 py-3 rounded-lg font-bold text-sm transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg"
+              >
+                Kapat
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Mobile Action Buttons */}
       <div className="px-4 py-6 border-t" style={{ backgroundColor: 'var(--mobile-game-area-bg)', borderColor: 'var(--mobile-border)' }}>
         <div className="flex justify-center space-x-4">
@@ -910,9 +1014,50 @@ export default function CryptographyGame() {
             <span>İpucu ({gameState ? gameState.maxHints - gameState.hintsUsed : 0})</span>
           </button>
           
+          {/* Pause Button */}
+          <button
+            onClick={togglePause}
+            disabled={gameState.isGameOver}
+            className={`px-6 py-3 rounded-xl flex items-center space-x-2 transition-all duration-300 transform hover:scale-105 active:scale-95 ${
+              gameState.isGameOver
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-purple-500 hover:bg-purple-600 text-white shadow-lg hover:shadow-xl'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              {isPaused(gameState) ? (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3l14 9-14 9V3z" />
+              ) : (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
+              )}
+            </svg>
+            <span>{isPaused(gameState) ? 'Devam' : 'Duraklat'}</span>
+          </button>
+
+          {/* Undo Button - only where the result does not count toward stats */}
+          {engineState?.allowUndo && (
+            <button
+              onClick={handleUndo}
+              disabled={gameState.isGameOver || getUndoableMoveIndex(gameState) === -1}
+              className={`px-6 py-3 rounded-xl flex items-center space-x-2 transition-all duration-300 transform hover:scale-105 active:scale-95 ${
+                gameState.isGameOver || getUndoableMoveIndex(gameState) === -1
+                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  : 'bg-gray-600 hover:bg-gray-700 text-white shadow-lg hover:shadow-xl'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+              <span>Geri Al</span>
+            </button>
+          )}
+          
           {/* New Game Button */}
           <button
-            onClick={() => setShowNewGameConfirm(true)}
+            onClick={() => {
+              pauseForDialog(); // Onay beklenirken süre işlemez
+              setShowNewGameConfirm(true);
+            }}
             className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-xl flex items-center space-x-2 transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg hover:shadow-xl"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -920,6 +1065,47 @@ export default function CryptographyGame() {
             </svg>
             <span>Yeni Oyun</span>
           </button>
+
+          {/* Category Button */}
+          <button
+            onClick={() => {
+              pauseForDialog();
+              setShowCategoryPicker(true);
+            }}
+            className="bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-3 rounded-xl flex items-center space-x-2 transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg hover:shadow-xl"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+            </svg>
+            <span>Kategoriler{selectedCategories.length > 0 ? ` (${selectedCategories.length})` : ''}</span>
+          </button>
+
+          {/* Share Button */}
+          <button
+            onClick={handleShare}
+            className="bg-teal-500 hover:bg-teal-600 text-white px-6 py-3 rounded-xl flex items-center space-x-2 transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-lg hover:shadow-xl"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+            </svg>
+            <span>Paylaş</span>
+          </button>
+
+          {/* Daily Puzzle Button */}
+          <button
+            onClick={startDailyGame}
+            disabled={dailyPlayed || gameMode === 'daily'}
+            className={`px-6 py-3 rounded-xl flex items-center space-x-2 transition-all duration-300 transform hover:scale-105 active:scale-95 ${
+              dailyPlayed || gameMode === 'daily'
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-purple-500 hover:bg-purple-600 text-white shadow-lg hover:shadow-xl'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+            <span>{dailyPlayed ? 'Günün Şifresi ✓' : 'Günün Şifresi'}</span>
+          </button>
         </div>
       </div>
 
@@ -1,5 +1,26 @@
 'use client';
 
+import { CIPHER_ALPHABET } from '@/lib/cipher';
+
+// Klavye düzeni; şifre alfabesinde olmayan tuşlar gösterilmez
+const KEYBOARD_LAYOUT = [
+  ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'],
+  ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P', 'Ğ', 'Ü'],
+  ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'Ş', 'İ'],
+  ['Z', 'X', 'C', 'V', 'B', 'N', 'M', 'Ö', 'Ç'],
+  ['Â', 'Î', 'Û']
+];
+
+/**
+ * Keyboard rows offering exactly the cipher alphabet; letters missing from the layout get an extra row
+ */
+function getKeyboardRows(): string[][] {
+  const alphabet = Array.from(CIPHER_ALPHABET);
+  const rows = KEYBOARD_LAYOUT.map(row => row.filter(key => alphabet.includes(key)));
+  const extraKeys = alphabet.filter(key => !KEYBOARD_LAYOUT.flat().includes(key));
+  return [...rows, extraKeys].filter(row => row.length > 0);
+}
+
 interface VirtualKeyboardProps {
   onKeyPress: (key: string) => void;
   onDirectionPress: (direction: 'left' | 'right') => void;
@@ -9,11 +30,7 @@ interface VirtualKeyboardProps {
 
 export default function VirtualKeyboard({ onKeyPress, onDirectionPress, disabled = false, correctLetters = new Set() }: VirtualKeyboardProps) {
   // Turkish alphabet with special characters
-  const keyboardRows = [
-    ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P', 'Ğ', 'Ü'],
-    ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'Ş', 'İ'],
-    ['Z', 'X', 'C', 'V', 'B', 'N', 'M', 'Ö', 'Ç']
-  ];
+  const keyboardRows = getKeyboardRows();
 
   const handleKeyClick = (key: string) => {
     if (!disabled) {
@@ -0,0 +1,142 @@
+/**
+ * Puzzle Ambiguity Analysis
+ * Detects boards whose revealed letters and cipher pattern admit several valid
+ * Turkish readings, and applies the policy configured in gameSettings.ambiguity
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import { GameState, getSolutionText, rerollReveals, setAcceptedReading } from './cipher';
+import { deriveSeed } from './random';
+import { SolverPuzzle, getSolverPuzzle, isSolverSupported, solvePuzzle } from './solver';
+import { getWordLetters, isCipherToken, tokenize } from './tokenizer';
+
+export type AmbiguityMode = 'off' | 'reroll' | 'acceptAlternatives';
+
+// Belirsizlik analizi için yeterli çözüm sayısı
+const ANALYSIS_MAX_SOLUTIONS = 10;
+
+export interface WordAlternatives {
+  wordIndex: number;
+  original: string;
+  alternatives: string[];
+}
+
+export interface AmbiguityReport {
+  isAmbiguous: boolean;
+  readingCount: number;
+  words: WordAlternatives[]; // Sadece alternatifi olan kelimeler
+  isSupported: boolean; // Homofonik ve Vigenère tahtalarında belirsizlik kontrolü yapılmaz
+}
+
+export function getAmbiguityMode(): AmbiguityMode {
+  return gameSettings.ambiguity.mode as AmbiguityMode;
+}
+
+/**
+ * Find alternative readings for each cipher word given the revealed positions
+ * (the solver's own word list is used unless a dictionary is passed in)
+ */
+export function analyzeAmbiguity(
+  gameState: GameState,
+  revealedPositions: Set<number> = gameState.initialRevealedPositions,
+  dictionary?: string[]
+): AmbiguityReport {
+  if (!isSolverSupported(gameState)) {
+    return { isAmbiguous: false, readingCount: 0, words: [], isSupported: false };
+  }
+
+  const puzzle = getSolverPuzzle(gameState, revealedPositions);
+  const result = solvePuzzle(puzzle, { maxSolutions: ANALYSIS_MAX_SOLUTIONS, dictionary });
+  const originalWords = getWordLetters(getSolutionText(gameState)).map(letters => letters.join(''));
+
+  const words: WordAlternatives[] = [];
+  originalWords.forEach((original, wordIndex) => {
+    const alternatives = new Set<string>();
+    result.solutions.forEach(solution => {
+      const decoded = solution.plaintext.split(' ')[wordIndex];
+      if (decoded && decoded !== original && !decoded.includes('·')) {
+        alternatives.add(decoded);
+      }
+    });
+    if (alternatives.size > 0) {
+      words.push({ wordIndex, original, alternatives: [...alternatives] });
+    }
+  });
+
+  return {
+    isAmbiguous: words.length > 0,
+    readingCount: result.solutionCount,
+    words,
+    isSupported: true
+  };
+}
+
+/**
+ * Re-roll the initial reveals (deterministically from the game seed) until the board is unambiguous
+ */
+export function rerollUntilUnambiguous(
+  game: GameState,
+  maxRerolls: number = gameSettings.ambiguity.maxRerolls,
+  dictionary?: string[]
+): GameState {
+  let best = game;
+  let bestReport = analyzeAmbiguity(game, game.initialRevealedPositions, dictionary);
+  for (let attempt = 1; attempt <= maxRerolls && bestReport.isAmbiguous; attempt++) {
+    // Sadece açılan harfler yeniden seçilir; eşleme, anahtar ve şifre ailesi aynı kalır
+    const candidate = rerollReveals(game, deriveSeed(game.seed, 'reroll', attempt));
+    const report = analyzeAmbiguity(candidate, candidate.initialRevealedPositions, dictionary);
+    if (report.words.length < bestReport.words.length) {
+      best = candidate;
+      bestReport = report;
+    }
+  }
+  return best;
+}
+
+/**
+ * Apply the configured ambiguity policy to a freshly generated game
+ */
+export function applyAmbiguityPolicy(game: GameState, dictionary?: string[]): GameState {
+  return getAmbiguityMode() === 'reroll'
+    ? rerollUntilUnambiguous(game, gameSettings.ambiguity.maxRerolls, dictionary)
+    : game;
+}
+
+/**
+ * Switch the game to another valid reading; the mapping and the tokens on the board stay unchanged,
+ * only the text the board is solved against changes
+ */
+function switchReading(game: GameState, puzzle: SolverPuzzle, reading: Map<number, string>): GameState {
+  // Replace letters of the board, keeping punctuation and letter case; the catalog sentence stays as is
+  const numbers = puzzle.words.flat();
+  const acceptedReading = tokenize(getSolutionText(game)).tokens.map(token => {
+    if (!isCipherToken(token)) return token.char;
+    const newLetter = reading.get(numbers[token.position])!;
+    return token.char === token.letter ? newLetter : newLetter.toLocaleLowerCase('tr-TR');
+  }).join('');
+  return setAcceptedReading(game, acceptedReading);
+}
+
+/**
+ * In acceptAlternatives mode: if the guess fits another valid reading of the
+ * board, return the game switched to that reading (so the guess becomes correct)
+ */
+export function findAlternativeReading(game: GameState, targetIndex: number, letter: string): GameState | null {
+  if (getAmbiguityMode() !== 'acceptAlternatives') return null;
+  // Homofonik ve Vigenère tahtalarında bir token tek harfe karşılık gelmez
+  if (!isSolverSupported(game)) return null;
+
+  const revealed = new Set([...game.initialRevealedPositions, ...game.userRevealedPositions]);
+  const puzzle = getSolverPuzzle(game, revealed);
+  const targetNumber = puzzle.words.flat()[targetIndex];
+  if (targetNumber === undefined) return null;
+  // Harf başka bir sayıya zaten açılmışsa alternatif olamaz
+  if ([...puzzle.known].some(([number, knownLetter]) => knownLetter === letter && number !== targetNumber)) return null;
+
+  puzzle.known.set(targetNumber, letter);
+  const result = solvePuzzle(puzzle, { maxSolutions: 1 });
+  const reading = result.solutions[0];
+  if (!reading || reading.plaintext.includes('·')) return null;
+
+  return switchReading(game, puzzle, reading.mapping);
+}
@@ -0,0 +1,177 @@
+/**
+ * Sentence Catalog Validation
+ * Recomputes the derived fields of sentences.json and reports catalog problems
+ * (used by the build in next.config.ts and by the admin page)
+ */
+
+import sentencesData from '../data/sentences.json';
+import { CIPHER_ALPHABET, hasTripleLetterRun } from './cipher';
+import { countLetters, isCipherToken, tokenize } from './tokenizer';
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+export interface CatalogCategory {
+  name: string;
+  description: string;
+  color: string;
+}
+
+export interface CatalogSentence {
+  id: number;
+  text: string;
+  difficulty: string;
+  category: string;
+  wordCount: number;
+  letterCount: number;
+  hasSpecialChars: boolean;
+  description?: string;
+  tags: string[];
+  retired?: boolean; // Emekliye ayrılan cümleler oyunda çıkmaz ama kayıtta kalır
+}
+
+export interface SentenceCatalog {
+  categories: Record<string, CatalogCategory>;
+  sentences: CatalogSentence[];
+}
+
+export type DerivedField = 'wordCount' | 'letterCount' | 'hasSpecialChars';
+
+export type CatalogIssueType =
+  | 'emptyText'
+  | 'metadataMismatch'
+  | 'duplicateId'
+  | 'duplicateText'
+  | 'unknownCategory'
+  | 'invalidDifficulty'
+  | 'unsupportedCharacter'
+  | 'tripleLetter'
+  | 'invalidTags';
+
+export interface CatalogIssue {
+  sentenceId: number;
+  type: CatalogIssueType;
+  severity: 'error' | 'warning'; // Hatalar oyunu bozar, uyarılar sadece veri tutarsızlığı
+  message: string;
+}
+
+export interface CatalogReport {
+  isValid: boolean; // Hata yoksa true (uyarılar geçerliliği bozmaz)
+  errorCount: number;
+  warningCount: number;
+  issues: CatalogIssue[];
+}
+
+/**
+ * Compute the derived fields of a sentence from its text
+ */
+export function computeSentenceMetadata(text: string): Pick<CatalogSentence, DerivedField> {
+  return {
+    wordCount: tokenize(text).words.length,
+    letterCount: countLetters(text),
+    hasSpecialChars: tokenize(text).tokens.some(token => token.type === 'punctuation' || token.type === 'quote')
+  };
+}
+
+/**
+ * Characters of the text that have no cipher number
+ */
+export function getUnsupportedCharacters(text: string): string[] {
+  const unsupported = tokenize(text).tokens
+    .filter(isCipherToken)
+    .filter(token => !CIPHER_ALPHABET.includes(token.letter))
+    .map(token => token.char);
+  return [...new Set(unsupported)];
+}
+
+/**
+ * Validate every sentence of the catalog
+ */
+export function validateCatalog(catalog: SentenceCatalog = sentencesData): CatalogReport {
+  const issues: CatalogIssue[] = [];
+  const seenIds = new Set<number>();
+  const seenTexts = new Map<string, number>();
+
+  catalog.sentences.forEach(sentence => {
+    const id = sentence.id;
+    const add = (type: CatalogIssueType, severity: 'error' | 'warning', message: string) => {
+      issues.push({ sentenceId: id, type, severity, message });
+    };
+
+    if (!Number.isInteger(id) || seenIds.has(id)) {
+      add('duplicateId', 'error', `Geçersiz veya tekrarlanan id: ${id}`);
+    }
+    seenIds.add(id);
+
+    if (typeof sentence.text !== 'string' || sentence.text.trim() === '') {
+      add('emptyText', 'error', 'Cümle metni boş');
+      return;
+    }
+
+    const textKey = sentence.text.trim().toLocaleLowerCase('tr-TR');
+    const firstId = seenTexts.get(textKey);
+    if (firstId !== undefined) {
+      add('duplicateText', 'error', `Aynı cümle #${firstId} ile tekrarlanıyor`);
+    } else {
+      seenTexts.set(textKey, id);
+    }
+
+    if (!DIFFICULTIES.includes(sentence.difficulty)) {
+      add('invalidDifficulty', 'error', `Bilinmeyen zorluk: "${sentence.difficulty}"`);
+    }
+    if (!(sentence.category in catalog.categories)) {
+      add('unknownCategory', 'error', `Bilinmeyen kategori: "${sentence.category}"`);
+    }
+
+    const unsupported = getUnsupportedCharacters(sentence.text);
+    if (unsupported.length > 0) {
+      add('unsupportedCharacter', 'error', `Şifre alfabesinde olmayan karakterler: ${unsupported.join(' ')}`);
+    }
+
+    if (hasTripleLetterRun(sentence.text)) {
+      add('tripleLetter', 'warning', 'Art arda 3 aynı harf var - rastgele seçimde atlanır');
+    }
+
+    if (!Array.isArray(sentence.tags) || sentence.tags.length === 0 || sentence.tags.some(tag => typeof tag !== 'string' || tag.trim() === '')) {
+      add('invalidTags', 'warning', 'Etiket listesi boş veya geçersiz');
+    }
+
+    const metadata = computeSentenceMetadata(sentence.text);
+    (Object.keys(metadata) as DerivedField[]).forEach(field => {
+      if (sentence[field] !== metadata[field]) {
+        add('metadataMismatch', 'warning', `${field}: kayıtlı ${sentence[field]}, hesaplanan ${metadata[field]}`);
+      }
+    });
+  });
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  return {
+    isValid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues
+  };
+}
+
+/**
+ * Return a copy of the catalog with the derived fields recomputed from the texts
+ */
+export function recomputeCatalog(catalog: SentenceCatalog = sentencesData): SentenceCatalog {
+  return {
+    ...catalog,
+    sentences: catalog.sentences.map(sentence => ({
+      ...sentence,
+      ...computeSentenceMetadata(sentence.text)
+    }))
+  };
+}
+
+/**
+ * Plain text summary of a report, one line per issue
+ */
+export function formatCatalogReport(report: CatalogReport): string {
+  const lines = report.issues.map(issue =>
+    `[${issue.severity === 'error' ? 'HATA' : 'UYARI'}] #${issue.sentenceId} ${issue.type}: ${issue.message}`
+  );
+  lines.push(`${report.errorCount} hata, ${report.warningCount} uyarı`);
+  return lines.join('\n');
+}
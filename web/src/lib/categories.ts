@@ -0,0 +1,60 @@
+/**
+ * Category Packs
+ * Player-selected sentence categories for progressive games, with per-category progress
+ */
+
+import { SENTENCE_CATEGORIES, SENTENCES_DETAILED } from './cipher';
+import { PoolStats, SentenceHistory, getScheduleStats } from './scheduler';
+
+const CATEGORY_STORAGE_KEY = 'kriptografya.categories';
+
+export interface CategoryPack {
+  key: string;
+  name: string;
+  description: string;
+  color: string;
+  sentenceCount: number;
+  progress: PoolStats; // Bu kategoride görülen / çözülen cümleler
+}
+
+/**
+ * Every category of the catalog with its sentence count and the player's progress
+ */
+export function getCategoryPacks(history: SentenceHistory): CategoryPack[] {
+  const byCategory = getScheduleStats(SENTENCES_DETAILED, history).byCategory;
+  return Object.entries(SENTENCE_CATEGORIES).map(([key, category]) => {
+    const progress = byCategory[key] ?? { total: 0, seen: 0, solved: 0, remaining: 0 };
+    return {
+      key,
+      name: category.name,
+      description: category.description,
+      color: category.color,
+      sentenceCount: progress.total,
+      progress
+    };
+  });
+}
+
+/**
+ * Selected category keys; empty means every category
+ */
+export function loadSelectedCategories(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(CATEGORY_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : [];
+    // Katalogdan kaldırılan kategoriler seçimden düşer
+    return Array.isArray(parsed) ? parsed.filter(key => typeof key === 'string' && key in SENTENCE_CATEGORIES) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSelectedCategories(categories: string[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(CATEGORY_STORAGE_KEY, JSON.stringify(categories));
+  } catch {
+    // Depolama kapalıysa seçim sadece bu oturumda kalır
+  }
+}
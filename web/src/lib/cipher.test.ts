@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { buildPuzzle, getCipherTokens, getRandomSentence, getSolutionText } from './cipher';
+import { createSeededRandom } from './random';
+import { isSolverSupported } from './solver';
+import { getLetters } from './tokenizer';
+
+describe('buildPuzzle', () => {
+  const sentence = getRandomSentence('hard', createSeededRandom(1));
+
+  it('keeps hard games on a family the ambiguity check can read', () => {
+    expect(isSolverSupported(buildPuzzle(sentence, { seed: 7 }))).toBe(true);
+  });
+
+  it('writes homophones when the expert family is chosen', () => {
+    const game = buildPuzzle(sentence, { seed: 7, cipher: 'homophonic' });
+    expect(game.cipher.family).toBe('homophonic');
+
+    // En az bir harf tahtada birden çok sayıyla yazılır
+    const letters = getLetters(getSolutionText(game));
+    const tokensByLetter = new Map<string, Set<string>>();
+    getCipherTokens(game).forEach((token, position) => {
+      tokensByLetter.set(letters[position], (tokensByLetter.get(letters[position]) ?? new Set()).add(token));
+    });
+    expect([...tokensByLetter.values()].some(tokens => tokens.size > 1)).toBe(true);
+  });
+});
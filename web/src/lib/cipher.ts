@@ -4,12 +4,31 @@
  */
 
 import gameSettings from '../config/gameSettings.json';
+import { RandomSource, createSeed, createSeededRandom, deriveSeed, pickRandom, shuffle } from './random';
+import { getDifficultyDistribution } from './progression';
+import { RatingState, getMatchedSentences, isRatingEnabled } from './rating';
+import { SentenceHistory, isSchedulerEnabled, pickScheduledSentence } from './scheduler';
+import { Token, getLetterGroups, getLetters, getWordRevealedPositions, isCipherToken, tokenize } from './tokenizer';
+import { getRevealOrder, selectRevealPositions } from './reveal';
+import { resolveGameRules } from './rules';
+import {
+  CipherFamily,
+  CipherSpec,
+  DEFAULT_CIPHER,
+  createCipher,
+  createCipherSpec,
+  hasFixedTokenLetters,
+  hasSingleTokenPerLetter
+} from './ciphers';
 
 function getDifficultySettings(difficulty: 'easy' | 'medium' | 'hard') {
   return gameSettings.difficulty[difficulty];
 }
 
-function getWordLengthCategory(wordLength: number): string {
+/**
+ * Word length bucket used by letterRevealLimits
+ */
+export function getWordLengthCategory(wordLength: number): string {
   if (wordLength <= 4) return '3-4';
   if (wordLength <= 6) return '5-6';
   if (wordLength <= 8) return '7-8';
@@ -39,42 +58,54 @@ function normalizeForProcessing(text: string): string {
     .replace(/ç/g, 'C'); // ç → C
 }
 
-/**
- * Normalize text for display (keep Turkish characters)
- */
-function normalizeForDisplay(text: string): string {
-  return text
-    .replace(/i/g, 'İ')  // i → İ (Turkish uppercase i)
-    .replace(/ı/g, 'I')  // ı → I (Turkish uppercase ı)
-    .toUpperCase();
-}
-
 export interface GameState {
-  originalSentence: string;
+  originalSentence: string; // Katalogdaki cümle (kimlik, puan ve istatistikler buna bağlıdır)
+  acceptedReading: string | null; // Kabul edilen alternatif okuma; varsa tahta buna göre değerlendirilir
   cipherSentence: string;
   letterMapping: Map<string, number>;
+  cipher: CipherSpec; // Tahtada harflerin nasıl gösterildiği (sayı, Sezar, Vigenère...)
+  groupSize: number | null; // Kelime sınırları gizliyse harfler bu uzunlukta gruplanır, null ise kelimeler gösterilir
+  fillMode: boolean; // Klasik doldurma: harf şifre tokenına atanır, tahta dolunca kontrol edilir
+  assignments: Map<string, string>; // Doldurma modunda şifre tokenı → oyuncunun atadığı harf
   revealedLetters: Set<string>; // Oyun başında açılan harfler
   userRevealedPositions: Set<number>; // Kullanıcının açtığı pozisyonlar
   initialRevealedPositions: Set<number>; // Oyun başında açılan pozisyonlar
-  wordRevealedPositions: Map<string, Set<number>>; // Her kelime için açılan pozisyonlar
+  wordRevealedPositions: Map<number, Set<number>>; // Kelime sırası → kelime içinde açılan pozisyonlar
   mistakes: number;
   maxMistakes: number;
   timeLimit: number;
   startTime: number;
+  pausedAt: number | null; // Duraklatıldığı an, oyun sürüyorsa null
+  pausedMs: number; // Önceki duraklatmalarda geçen toplam süre
+  timeBonus: number; // Süreli oyunlarda doğru tahmin başına eklenen saniye
+  bonusTime: number; // Kazanılan toplam ek saniye
   isGameOver: boolean;
   isWon: boolean;
   difficulty: 'easy' | 'medium' | 'hard';
   hintsUsed: number;
   maxHints: number;
+  seed: number; // Cümle, şifre, açılan harfler ve ipucu sırası bu seed'den türetilir
+  moveLog: GameMove[]; // Oyuncunun tüm hamleleri (tekrar izleme ve geri alma için)
 }
 
+export type GameMove =
+  | { type: 'select'; index: number | null; at: number }
+  | { type: 'guess'; index: number; letter: string; isCorrect: boolean; at: number; undone?: boolean; previousReading?: string | null } // previousReading: tahmin alternatif okumaya geçirdiyse önceki okuma
+  | { type: 'assign'; index: number; letter: string; previous: string | null; at: number; undone?: boolean }
+  | { type: 'hint'; positions: number[]; at: number; undone?: boolean }
+  | { type: 'timeout'; at: number }
+  | { type: 'undo'; at: number };
+
 export interface GameResult {
   sentenceNumber: number;
+  sentenceId?: number; // Katalog cümlesi ise id (cümle rating'i için)
   difficulty: 'easy' | 'medium' | 'hard';
   isWon: boolean;
   mistakes: number;
   hintsUsed: number;
   timeSpent: number;
+  puzzleCode?: string; // Başlangıç tahtası (paylaşım kodu formatında)
+  moves?: GameMove[]; // Hamle kaydı - puzzleCode ile birlikte oyunu birebir yeniden kurar
 }
 
 export interface Sentence {
@@ -88,247 +119,350 @@ export interface ProgressiveGameState {
   performanceHistory: GameResult[];
   currentDifficulty: 'easy' | 'medium' | 'hard';
   adaptiveMode: boolean;
+  seed: number; // Seri seed'i: cümle seçimi, tahtalar ve zorluk eğrisi bundan türetilir
+  draws: number; // Başlatılan oyun sayısı (yarıda bırakılan oyun aynı cümleyi tekrar getirmez)
 }
 
 // Import sentences from JSON file
-import sentencesData from '@/data/sentences.json';
+import sentencesData from '../data/sentences.json';
+import type { CatalogSentence } from './catalog';
 
-// Turkish sentences database - loaded from JSON
-export const SENTENCES: Sentence[] = sentencesData.sentences.map(sentence => ({
-  text: sentence.text,
-  difficulty: sentence.difficulty as 'easy' | 'medium' | 'hard',
-  category: sentence.category
-}));
+// Turkish sentences database - loaded from JSON, replaced at runtime by loadSentenceCatalog
+export const SENTENCES: Sentence[] = [];
 
 // Export categories and detailed sentence info for future use
 export const SENTENCE_CATEGORIES = sentencesData.categories;
-export const SENTENCES_DETAILED = sentencesData.sentences;
+export const SENTENCES_DETAILED: CatalogSentence[] = [];
+
+let sentenceCatalogVersion = 0;
+
+/**
+ * Replace the playable sentences (e.g. with the admin sentence store); retired sentences are left out
+ * The arrays are updated in place so every importer sees the new catalog without a rebuild
+ */
+export function loadSentenceCatalog(sentences: CatalogSentence[]): void {
+  const active = sentences.filter(sentence => !sentence.retired);
+  SENTENCES_DETAILED.splice(0, SENTENCES_DETAILED.length, ...active);
+  SENTENCES.splice(0, SENTENCES.length, ...active.map(sentence => ({
+    text: sentence.text,
+    difficulty: sentence.difficulty as 'easy' | 'medium' | 'hard',
+    category: sentence.category
+  })));
+  sentenceCatalogVersion++;
+}
+
+/**
+ * Incremented on every loadSentenceCatalog call (for caches built from the catalog)
+ */
+export function getSentenceCatalogVersion(): number {
+  return sentenceCatalogVersion;
+}
+
+loadSentenceCatalog(sentencesData.sentences);
+
+// Letters that receive a cipher number, in mapping order
+export const TURKISH_ALPHABET = gameSettings.alphabet.letters;
+
+// Şifrelenen tüm karakterler: Türk alfabesi, yabancı ve şapkalı harfler, rakamlar.
+// Sayılar 1..CIPHER_ALPHABET.length aralığındadır
+export const CIPHER_ALPHABET = TURKISH_ALPHABET + gameSettings.alphabet.extended + gameSettings.alphabet.digits;
 
 /**
- * Generate a random cipher mapping for Turkish alphabet
+ * Generate a random cipher mapping for the whole cipher alphabet
  */
-export function generateCipherMapping(): Map<string, number> {
-  const turkishAlphabet = 'ABCÇDEFGĞHIİJKLMNOÖPRSŞTUÜVYZ';
+export function generateCipherMapping(random: RandomSource): Map<string, number> {
+  const alphabet = Array.from(CIPHER_ALPHABET);
   const mapping = new Map<string, number>();
   
-  // Create array of numbers 1-29
-  const numbers = Array.from({ length: 29 }, (_, i) => i + 1);
-  
-  // Shuffle numbers
-  for (let i = numbers.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
-  }
+  // Create shuffled array of numbers 1..alphabet length
+  const numbers = shuffle(Array.from({ length: alphabet.length }, (_, i) => i + 1), random);
   
   // Map each letter to a number
-  for (let i = 0; i < turkishAlphabet.length; i++) {
-    mapping.set(turkishAlphabet[i], numbers[i]);
+  for (let i = 0; i < alphabet.length; i++) {
+    mapping.set(alphabet[i], numbers[i]);
   }
+
+  // Kendi değerini alan rakam tahtada açık görünürdü: sayısı aynı sıradaki harfle değiştirilir
+  Array.from(gameSettings.alphabet.digits).forEach((digit, i) => {
+    if (mapping.get(digit)!.toString() !== digit) return;
+    const letter = alphabet[i];
+    const letterNumber = mapping.get(letter)!;
+    mapping.set(letter, mapping.get(digit)!);
+    mapping.set(digit, letterNumber);
+  });
   
   return mapping;
 }
 
 /**
- * Convert sentence to cipher using letter mapping
+ * Convert sentence to cipher using letter mapping and the cipher family
+ * With a groupSize, spaces and punctuation are dropped and the letters are written in groups
  */
-export function sentenceToCipher(sentence: string, mapping: Map<string, number>): string {
-  return sentence
-    .toUpperCase()
-    .split('')
-    .map(char => {
-      if (char === ' ') return ' ';
-      if (char === '\'') return '\'';
-      if (char === '.') return '.';
-      if (char === ',') return ',';
-      if (char === '!') return '!';
-      if (char === '?') return '?';
-      if (char === ':') return ':';
-      if (char === ';') return ';';
-      if (char === '-') return '-';
-      
-      // First try with original character, then with normalized
-      let number = mapping.get(char);
-      if (!number) {
-        const normalizedChar = normalizeForProcessing(char);
-        number = mapping.get(normalizedChar);
-      }
-      return number ? number.toString() : char;
-    })
+export function sentenceToCipher(
+  sentence: string,
+  mapping: Map<string, number>,
+  spec: CipherSpec = DEFAULT_CIPHER,
+  groupSize: number | null = null
+): string {
+  const cipher = createCipher(spec, mapping);
+  const encode = (token: Token) => {
+    // First try with original character, then with normalized
+    const letter = mapping.has(token.letter) ? token.letter : normalizeForProcessing(token.letter);
+    return cipher.encode(letter, token.position);
+  };
+
+  if (groupSize) {
+    return getLetterGroups(sentence, groupSize).map(group => group.map(encode).join('')).join(' ');
+  }
+  return tokenize(sentence).tokens
+    // Boşluk ve noktalama olduğu gibi kalır
+    .map(token => (isCipherToken(token) ? encode(token) : token.char))
     .join('');
 }
 
+function getSentenceTokens(sentence: string, mapping: Map<string, number>, spec: CipherSpec): string[] {
+  const cipher = createCipher(spec, mapping);
+  return tokenize(sentence).letters.map(token => cipher.encode(token.letter, token.position));
+}
+
 /**
- * Get a random sentence based on difficulty
+ * Text the board is solved against: the accepted alternative reading, or the catalog sentence
  */
-export function getRandomSentence(difficulty: 'easy' | 'medium' | 'hard' = 'easy'): Sentence {
-  const filteredSentences = SENTENCES.filter(s => s.difficulty === difficulty);
+export function getSolutionText(game: GameState): string {
+  return game.acceptedReading ?? game.originalSentence;
+}
+
+/**
+ * Set the reading the board is solved against (null: the catalog sentence) and rebuild the state
+ * derived from it; the mapping and the board tokens stay those of the original puzzle
+ */
+export function setAcceptedReading(game: GameState, acceptedReading: string | null): GameState {
+  const reading = acceptedReading === game.originalSentence ? null : acceptedReading;
+  const text = reading ?? game.originalSentence;
+  const letters = getLetters(text);
+  return {
+    ...game,
+    acceptedReading: reading,
+    revealedLetters: new Set([...game.initialRevealedPositions].map(position => letters[position])),
+    wordRevealedPositions: getWordRevealedPositions(text, game.initialRevealedPositions)
+  };
+}
+
+/**
+ * Cipher token of every board position (what LetterBox shows under each cell); always the tokens
+ * of the original puzzle, also after an alternative reading was accepted
+ */
+export function getCipherTokens(game: GameState): string[] {
+  return getSentenceTokens(game.originalSentence, game.letterMapping, game.cipher);
+}
+
+/**
+ * Positions that share a cipher token with any of the given positions (given ones included)
+ */
+function getMatchingTokenPositions(tokens: string[], positions: Iterable<number>): number[] {
+  const matchingTokens = new Set([...positions].map(position => tokens[position]));
+  return tokens.flatMap((token, position) => (matchingTokens.has(token) ? [position] : []));
+}
+
+/**
+ * Check for 3 or more consecutive same letters (such sentences are skipped by getRandomSentence)
+ */
+export function hasTripleLetterRun(text: string): boolean {
+  const upper = text.toUpperCase();
+  for (let i = 0; i < upper.length - 2; i++) {
+    if (upper[i] === upper[i + 1] && upper[i + 1] === upper[i + 2] && upper[i] !== ' ') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Get a random sentence based on difficulty (any sentence when none has that difficulty)
+ */
+export function getRandomSentence(
+  difficulty: 'easy' | 'medium' | 'hard',
+  random: RandomSource
+): Sentence {
+  const ofDifficulty = SENTENCES.filter(s => s.difficulty === difficulty);
+  const filteredSentences = ofDifficulty.length > 0 ? ofDifficulty : SENTENCES;
   
   // Filter out sentences with too many consecutive same letters
-  const goodSentences = filteredSentences.filter(sentence => {
-    const text = sentence.text.toUpperCase();
-    // Check for 3 or more consecutive same letters
-    for (let i = 0; i < text.length - 2; i++) {
-      if (text[i] === text[i + 1] && text[i + 1] === text[i + 2] && text[i] !== ' ') {
-        return false;
-      }
-    }
-    return true;
-  });
+  const goodSentences = filteredSentences.filter(sentence => !hasTripleLetterRun(sentence.text));
   
   // Use good sentences if available, otherwise fall back to all sentences
   const sentencesToUse = goodSentences.length > 0 ? goodSentences : filteredSentences;
-  const randomIndex = Math.floor(Math.random() * sentencesToUse.length);
-  return sentencesToUse[randomIndex];
+  return pickRandom(sentencesToUse, random);
+}
+
+export interface PuzzleOptions {
+  seed?: number; // Eşleme, açılan harfler ve ipucu sırası bu seed'den türetilir
+  random?: RandomSource; // Verilirse seed'in yerine kullanılır (cümle seçimiyle aynı akış için)
+  cipher?: CipherFamily; // Verilmezse zorluk / kategori kurallarındaki aile
+  hideWordBoundaries?: boolean; // Verilmezse zorluk / kategori kurallarındaki ayar
+  fillMode?: boolean; // Verilmezse zorluk / kategori kurallarındaki ayar
 }
 
+const REVEAL_MODES = { easy: 'easyMode', medium: 'mediumMode', hard: 'hardMode' } as const;
+
 /**
- * Initialize a new game
+ * Number of letters to reveal in a word: the letterRevealLimits bucket, short words in
+ * medium/hard only with revealProbability
  */
-export function initializeGame(difficulty: 'easy' | 'medium' | 'hard' = 'easy'): GameState {
-  const sentence = getRandomSentence(difficulty);
-  const mapping = generateCipherMapping();
-  const cipherSentence = sentenceToCipher(sentence.text, mapping);
-  
+function getRevealCount(
+  wordLetterCount: number,
+  difficulty: 'easy' | 'medium' | 'hard',
+  random: RandomSource
+): number {
   const difficultySettings = getDifficultySettings(difficulty);
+  const wordLengthCategory = getWordLengthCategory(wordLetterCount);
+  const maxLettersFromWord = difficultySettings.letterRevealLimits[wordLengthCategory as keyof typeof difficultySettings.letterRevealLimits];
   
-  // Get all letters from the sentence (without spaces) and normalize for processing
-  const allLetters = normalizeForProcessing(sentence.text)
-    .split('')
-    .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-  
-  // Kelime bazlı kısıtlamalar kullanılacak - genel oran sistemi kaldırıldı
-  const totalLetters = allLetters.length;
+  if (difficulty === 'easy' || wordLetterCount > 4) {
+    return maxLettersFromWord;
+  }
+  const shouldReveal = random() < difficultySettings.revealProbability;
+  return shouldReveal ? Math.min(1, maxLettersFromWord) : 0;
+}
+
+/**
+ * Choose the initially revealed letters word by word; with fill-mode tokens given, a revealed
+ * letter is revealed in every cell of its token
+ */
+function selectInitialReveals(
+  text: string,
+  difficulty: 'easy' | 'medium' | 'hard',
+  hideWordBoundaries: boolean,
+  fillTokens: string[] | null,
+  random: RandomSource
+): Pick<GameState, 'revealedLetters' | 'initialRevealedPositions' | 'wordRevealedPositions'> {
+  // Hangi harflerin açılacağı gameMechanics'teki priorityOrder'a göre seçilir
+  const revealOrder = getRevealOrder(gameSettings.gameMechanics[REVEAL_MODES[difficulty]], hideWordBoundaries);
+  const commonLetters = gameSettings.gameMechanics.commonLetters;
   
   // Kelime bazında kısıtlama: Kelime uzunluğuna göre dinamik maksimum harf sayısı
-  const words = sentence.text.split(' ').filter(word => word.trim() !== '');
+  const { words } = tokenize(text);
   const revealedLetters = new Set<string>();
-  const wordRevealedPositions = new Map<string, Set<number>>(); // Her kelime için ayrı pozisyon takibi
+  const wordRevealedPositions = new Map<number, Set<number>>(); // Tekrarlanan kelimeler sıralarıyla ayrı tutulur
+  const initialRevealedPositions = new Set<number>();
   
   // Her kelime için ayrı ayrı harf seç
   words.forEach(word => {
-    const wordLetters = word
-      .toUpperCase()
-      .split('')
-      .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-    
+    const wordLetters = word.letters.map(token => token.letter);
     if (wordLetters.length === 0) return;
     
-    const difficultySettings = getDifficultySettings(difficulty);
-    const wordLengthCategory = getWordLengthCategory(wordLetters.length);
-    const maxLettersFromWord = difficultySettings.letterRevealLimits[wordLengthCategory as keyof typeof difficultySettings.letterRevealLimits];
-    
-    let lettersFromThisWord: number;
-    const revealProbability = difficultySettings.revealProbability;
-    
-    if (difficulty === 'easy') {
-      lettersFromThisWord = maxLettersFromWord;
-    } else if (difficulty === 'medium') {
-      if (wordLetters.length <= 4) {
-        const shouldReveal = Math.random() < revealProbability;
-        lettersFromThisWord = shouldReveal ? Math.min(1, maxLettersFromWord) : 0;
-      } else {
-        lettersFromThisWord = maxLettersFromWord;
-      }
-    } else {
-      if (wordLetters.length <= 4) {
-        const shouldReveal = Math.random() < revealProbability;
-        lettersFromThisWord = shouldReveal ? Math.min(1, maxLettersFromWord) : 0;
-      } else {
-        lettersFromThisWord = maxLettersFromWord;
-      }
-    }
-    
-    let selectedPositions: number[] = [];
+    const count = getRevealCount(wordLetters.length, difficulty, random);
+    if (count === 0) return;
     
-    if (lettersFromThisWord > 0) {
-      const originalWordLetters = word.toUpperCase().split('').filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-      
-      const allPositions = originalWordLetters.map((_, index) => index);
-       
-      if (difficulty === 'easy') {
-        const gameMechanics = gameSettings.gameMechanics;
-        const commonLetters = gameMechanics.commonLetters;
-        
-        if (gameMechanics.easyMode.useEdgePositions) {
-          const edgePositions = [0, originalWordLetters.length - 1];
-          
-          const commonPositions = allPositions.filter(index => 
-            commonLetters.includes(originalWordLetters[index])
-          );
-          
-          const rarePositions = allPositions.filter(index => 
-            !commonLetters.includes(originalWordLetters[index])
-          );
-          
-          let priorityPositions = [...new Set([...edgePositions, ...commonPositions, ...rarePositions])];
-          priorityPositions = priorityPositions.slice(0, Math.min(lettersFromThisWord, priorityPositions.length));
-          
-          selectedPositions = priorityPositions;
-        } else {
-          const shuffledPositions = allPositions.sort(() => Math.random() - 0.5);
-          selectedPositions = shuffledPositions.slice(0, Math.min(lettersFromThisWord, allPositions.length));
-        }
-      } else {
-        const shuffledPositions = allPositions.sort(() => Math.random() - 0.5);
-        selectedPositions = shuffledPositions.slice(0, Math.min(lettersFromThisWord, allPositions.length));
-      }
-       
-     }
-     
-    if (!wordRevealedPositions.has(word)) {
-      wordRevealedPositions.set(word, new Set<number>());
-    }
-    
-    selectedPositions.forEach(positionIndex => {
-      const originalWordLetters = word.split('').filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-      const letter = normalizeForDisplay(originalWordLetters[positionIndex]);
-      wordRevealedPositions.get(word)!.add(positionIndex);
+    const selectedPositions = selectRevealPositions(wordLetters, count, revealOrder, { commonLetters, random });
+    wordRevealedPositions.set(word.index, new Set(selectedPositions));
+    selectedPositions.forEach(position => {
+      revealedLetters.add(wordLetters[position]);
+      initialRevealedPositions.add(word.start + position);
     });
   });
   
-  
-  
-  const initialRevealedPositions = new Set<number>();
-  let globalPositionIndex = 0;
+  // Doldurma modunda açılan harf, aynı tokenı taşıyan bütün kutularda açılır
+  if (fillTokens) {
+    const fillRevealedPositions = new Set(getMatchingTokenPositions(fillTokens, initialRevealedPositions));
+    return {
+      revealedLetters,
+      initialRevealedPositions: fillRevealedPositions,
+      wordRevealedPositions: getWordRevealedPositions(text, fillRevealedPositions)
+    };
+  }
+  return { revealedLetters, initialRevealedPositions, wordRevealedPositions };
+}
 
-  words.forEach(word => {
-    const wordPositions = wordRevealedPositions.get(word);
-    if (wordPositions) {
-      wordPositions.forEach(position => {
-        initialRevealedPositions.add(globalPositionIndex + position);
-      });
-    }
-    const wordLetters = word.split('').filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-    globalPositionIndex += wordLetters.length;
-  });
+/**
+ * Choose the initial reveals of a board again from another seed; the sentence, mapping and
+ * cipher stay the same
+ */
+export function rerollReveals(game: GameState, seed: number): GameState {
+  return {
+    ...game,
+    ...selectInitialReveals(
+      game.originalSentence,
+      game.difficulty,
+      game.groupSize !== null,
+      game.fillMode ? getCipherTokens(game) : null,
+      createSeededRandom(seed)
+    )
+  };
+}
 
+/**
+ * Build the board for a sentence: cipher mapping and the initially revealed letters
+ * Every game (progressive, daily, shared and the admin's selected sentence) is built here,
+ * so the same sentence and seed always produce the same board
+ */
+export function buildPuzzle(sentence: Sentence, options: PuzzleOptions = {}): GameState {
+  const seed = options.seed ?? createSeed();
+  const random = options.random ?? createSeededRandom(seed);
+  const mapping = generateCipherMapping(random);
+  const rules = resolveGameRules(sentence.difficulty, sentence.category);
+  // Anahtar ayrı bir akıştan çekilir, açılan harfler şifre ailesinden bağımsız kalır
+  const cipher = createCipherSpec(options.cipher ?? rules.cipherFamily, createSeededRandom(deriveSeed(seed, 'cipher')));
+  const groupSize = (options.hideWordBoundaries ?? rules.hideWordBoundaries) ? gameSettings.gameSettings.letterGroupSize : null;
+  const cipherSentence = sentenceToCipher(sentence.text, mapping, cipher, groupSize);
+  // Vigenère'de aynı token farklı harfler olabildiği için doldurma modu kullanılamaz
+  const fillMode = (options.fillMode ?? rules.fillMode) && hasFixedTokenLetters(cipher);
+  const reveals = selectInitialReveals(
+    sentence.text,
+    sentence.difficulty,
+    groupSize !== null,
+    fillMode ? getSentenceTokens(sentence.text, mapping, cipher) : null,
+    random
+  );
+  
   return {
     originalSentence: sentence.text,
+    acceptedReading: null,
     cipherSentence,
     letterMapping: mapping,
-    revealedLetters: new Set<string>(),
+    cipher,
+    groupSize,
+    fillMode,
+    assignments: new Map<string, string>(),
+    ...reveals,
     userRevealedPositions: new Set<number>(),
-    initialRevealedPositions: initialRevealedPositions,
-    wordRevealedPositions: wordRevealedPositions,
     mistakes: 0,
-    maxMistakes: 3,
-    timeLimit: difficultySettings.timeLimit,
+    maxMistakes: rules.maxMistakes,
+    timeLimit: rules.timeLimit,
     startTime: Date.now(),
+    pausedAt: null,
+    pausedMs: 0,
+    timeBonus: rules.timeBonus,
+    bonusTime: 0,
     isGameOver: false,
     isWon: false,
-    difficulty,
+    difficulty: sentence.difficulty,
     hintsUsed: 0,
-    maxHints: difficultySettings.hintCount,
+    maxHints: rules.maxHints,
+    seed,
+    moveLog: [],
   };
 }
 
+/**
+ * Initialize a new game with a random sentence of the given difficulty
+ * The same seed always produces the same sentence, mapping and initial reveals
+ */
+export function initializeGame(
+  difficulty: 'easy' | 'medium' | 'hard' = 'easy',
+  seed: number = createSeed()
+): GameState {
+  const random = createSeededRandom(seed);
+  const sentence = getRandomSentence(difficulty, random);
+  return buildPuzzle(sentence, { seed, random });
+}
+
 /**
  * Make a guess for a letter at a specific position
  */
 export function makeGuess(
   gameState: GameState, 
   letter: string,
-  difficulty: 'easy' | 'medium' | 'hard' = 'easy',
   targetIndex?: number
 ): { success: boolean; newState: GameState } {
   if (gameState.isGameOver || targetIndex === undefined) {
@@ -344,12 +478,10 @@ export function makeGuess(
   };
   
   // Get all letters from the original sentence (without spaces) - use Turkish locale
-  const allLetters = gameState.originalSentence
-    .toLocaleUpperCase('tr-TR')
-    .split('')
-    .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
+  const allLetters = getLetters(getSolutionText(gameState));
   
   // Check if the letter at the target position matches (exact match for Turkish letters)
+  // Tahmin harfe göre kontrol edilir; homofonik şifrede harfin hangi sayısının seçildiği fark etmez
   const letterAtPosition = allLetters[targetIndex];
   const isCorrect = letterAtPosition === userLetter;
   
@@ -379,13 +511,98 @@ export function makeGuess(
   }
 }
 
+export type AssignmentCheck = 'incomplete' | 'correct' | 'wrong';
+
+/**
+ * Fill mode: whether every unrevealed cell has an assigned letter and whether they are all right
+ */
+export function checkAssignments(gameState: GameState): AssignmentCheck {
+  const tokens = getCipherTokens(gameState);
+  const allLetters = getLetters(getSolutionText(gameState));
+  let isCorrect = true;
+  for (let position = 0; position < allLetters.length; position++) {
+    if (gameState.initialRevealedPositions.has(position) || gameState.userRevealedPositions.has(position)) continue;
+    const assigned = gameState.assignments.get(tokens[position]);
+    if (!assigned) return 'incomplete';
+    if (assigned !== allLetters[position]) isCorrect = false;
+  }
+  return isCorrect ? 'correct' : 'wrong';
+}
+
+/**
+ * Fill mode: assign a letter to the cipher token of a position, filling every cell with that token
+ * The board is only checked once every cell is filled: a right board wins, a wrong one costs one mistake
+ */
+export function makeAssignment(
+  gameState: GameState,
+  letter: string,
+  targetIndex: number
+): { success: boolean; check: AssignmentCheck; newState: GameState } {
+  const token = getCipherTokens(gameState)[targetIndex];
+  const userLetter = letter.toLocaleUpperCase('tr-TR');
+  // Aynı atamanın tekrarı dolu tahtada ikinci kez hata saydırmasın
+  if (gameState.isGameOver || !gameState.fillMode || token === undefined || gameState.assignments.get(token) === userLetter) {
+    return { success: false, check: 'incomplete', newState: gameState };
+  }
+
+  const assignments = new Map(gameState.assignments);
+  assignments.set(token, userLetter);
+  const newState: GameState = { ...gameState, assignments };
+  const check = checkAssignments(newState);
+
+  if (check === 'correct') {
+    // Tahta doğru dolduruldu: bütün kutular açılır
+    newState.userRevealedPositions = new Set(getLetters(getSolutionText(gameState)).map((_, position) => position));
+    newState.isWon = true;
+    newState.isGameOver = true;
+  } else if (check === 'wrong') {
+    newState.mistakes += 1;
+    if (newState.mistakes >= newState.maxMistakes) {
+      newState.isGameOver = true;
+      newState.isWon = false;
+    }
+  }
+  return { success: true, check, newState };
+}
+
+/**
+ * Fill mode: tokens whose letter is also assigned to (or revealed for) another token
+ * Homofonik şifrede bir harfin birden çok tokenı olabildiği için çakışma aranmaz
+ */
+export function getAssignmentConflicts(gameState: GameState): Set<string> {
+  const conflicts = new Set<string>();
+  if (!gameState.fillMode || !hasSingleTokenPerLetter(gameState.cipher)) return conflicts;
+
+  const tokens = getCipherTokens(gameState);
+  const allLetters = getLetters(getSolutionText(gameState));
+  const tokensByLetter = new Map<string, Set<string>>();
+  tokens.forEach((token, position) => {
+    const isRevealed = gameState.initialRevealedPositions.has(position) || gameState.userRevealedPositions.has(position);
+    const letter = isRevealed ? allLetters[position] : gameState.assignments.get(token);
+    if (!letter) return;
+    if (!tokensByLetter.has(letter)) tokensByLetter.set(letter, new Set());
+    tokensByLetter.get(letter)!.add(token);
+  });
+  tokensByLetter.forEach(letterTokens => {
+    if (letterTokens.size > 1) letterTokens.forEach(token => conflicts.add(token));
+  });
+  return conflicts;
+}
+
+/**
+ * Milliseconds actually played, without the paused time
+ */
+export function getElapsedTime(gameState: GameState, now: number = Date.now()): number {
+  const pausedMs = gameState.pausedMs + (gameState.pausedAt !== null ? now - gameState.pausedAt : 0);
+  return Math.max(0, now - gameState.startTime - pausedMs);
+}
 
 /**
- * Get remaining time in seconds
+ * Get remaining time in seconds (bonus seconds included)
  */
-export function getRemainingTime(gameState: GameState): number {
-  const elapsed = Math.floor((Date.now() - gameState.startTime) / 1000);
-  return Math.max(0, gameState.timeLimit - elapsed);
+export function getRemainingTime(gameState: GameState, now: number = Date.now()): number {
+  const elapsed = Math.floor(getElapsedTime(gameState, now) / 1000);
+  return Math.max(0, gameState.timeLimit + gameState.bonusTime - elapsed);
 }
 
 /**
@@ -400,38 +617,31 @@ export function useHint(
   }
 
   // Get all words and their revealed positions
-  const words = gameState.originalSentence.split(' ').filter(word => word.trim() !== '');
+  const { words } = tokenize(getSolutionText(gameState));
   const availableWords: { word: string; availablePositions: number[] }[] = [];
 
-  let globalPositionIndex = 0;
   words.forEach(word => {
-    const wordLetters = word.split('').filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-    const availablePositions: number[] = [];
-    
-    for (let i = 0; i < wordLetters.length; i++) {
-      const globalPos = globalPositionIndex + i;
-      if (!gameState.initialRevealedPositions.has(globalPos) && !gameState.userRevealedPositions.has(globalPos)) {
-        availablePositions.push(globalPos);
-      }
-    }
+    const availablePositions = word.letters
+      .map(token => token.position)
+      .filter(position => !gameState.initialRevealedPositions.has(position) && !gameState.userRevealedPositions.has(position));
     
     if (availablePositions.length > 0) {
-      availableWords.push({ word, availablePositions });
+      availableWords.push({ word: word.text, availablePositions });
     }
-    
-    globalPositionIndex += wordLetters.length;
   });
 
   if (availableWords.length === 0) {
     return { success: false, message: 'Açılacak harf kalmadı!' };
   }
 
+  // Each hint gets its own stream so hint order is reproducible from the game seed
+  const random = createSeededRandom(deriveSeed(gameState.seed, 'hint', gameState.hintsUsed));
+  
   // Select random word
-  const randomWord = availableWords[Math.floor(Math.random() * availableWords.length)];
+  const randomWord = pickRandom(availableWords, random);
   
   // Select one random position from the chosen word
-  const shuffledPositions = [...randomWord.availablePositions].sort(() => Math.random() - 0.5);
-  const selectedPosition = shuffledPositions[0];
+  const selectedPosition = pickRandom(randomWord.availablePositions, random);
   
   let revealedPositions: number[];
   
@@ -440,9 +650,8 @@ export function useHint(
   
   if (hintStrength === 'strong') {
     // Strong hint: Reveal all instances of the same letter (like old easy mode)
-    const allLetters = normalizeForProcessing(gameState.originalSentence)
-      .split('')
-      .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
+    // Homofonik şifrede harfin tüm sayıları birlikte açılır, çünkü eşleşme harf üzerinden yapılır
+    const allLetters = getLetters(getSolutionText(gameState));
     
     const selectedLetter = allLetters[selectedPosition];
     
@@ -462,6 +671,12 @@ export function useHint(
     revealedPositions = [selectedPosition];
   }
 
+  if (gameState.fillMode) {
+    // Doldurma modunda ipucu da aynı tokenı taşıyan bütün kutuları açar
+    revealedPositions = getMatchingTokenPositions(getCipherTokens(gameState), revealedPositions)
+      .filter(position => !gameState.initialRevealedPositions.has(position) && !gameState.userRevealedPositions.has(position));
+  }
+
   return { 
     success: true, 
     revealedPositions: revealedPositions, 
@@ -478,10 +693,7 @@ function checkGameCompletion(
   newRevealedPositions: number[]
 ): boolean {
   // Get all letters from the sentence - use Turkish locale
-  const allLetters = gameState.originalSentence
-    .toLocaleUpperCase('tr-TR')
-    .split('')
-    .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
+  const allLetters = getLetters(getSolutionText(gameState));
   
   // Combine all revealed positions (initial + user + new from hint)
   const allRevealedPositions = new Set([
@@ -538,70 +750,119 @@ function getHintStrength(
 
 /**
  * Calculate next difficulty based on sentence number and performance
+ * (curve and adaptive rules in gameSettings.progressiveSystem)
  */
 export function calculateNextDifficulty(
   sentenceNumber: number,
-  recentPerformance: GameResult[]
+  recentPerformance: GameResult[],
+  random: RandomSource,
+  adaptive: boolean = true
 ): 'easy' | 'medium' | 'hard' {
-  // Get last 5 games performance
-  const last5Games = recentPerformance.slice(-5);
-  
-  if (last5Games.length === 0) {
+  if (recentPerformance.length === 0) {
     // First game - start with easy
     return 'easy';
   }
   
-  // Calculate success rate
-  const successRate = last5Games.filter(game => game.isWon).length / last5Games.length;
-  const averageMistakes = last5Games.reduce((sum, game) => sum + game.mistakes, 0) / last5Games.length;
-  
-  // Progressive difficulty based on sentence number
-  if (sentenceNumber <= 5) {
-    // First 5 sentences: 70% easy, 30% medium
-    return Math.random() < 0.7 ? 'easy' : 'medium';
-  } else if (sentenceNumber <= 15) {
-    // Sentences 6-15: 50% easy, 40% medium, 10% hard
-    const rand = Math.random();
-    if (rand < 0.5) return 'easy';
-    if (rand < 0.9) return 'medium';
-    return 'hard';
-  } else if (sentenceNumber <= 30) {
-    // Sentences 16-30: 30% easy, 50% medium, 20% hard
-    const rand = Math.random();
-    if (rand < 0.3) return 'easy';
-    if (rand < 0.8) return 'medium';
-    return 'hard';
-  } else {
-    // Sentences 31+: 20% easy, 40% medium, 40% hard
-    const rand = Math.random();
-    if (rand < 0.2) return 'easy';
-    if (rand < 0.6) return 'medium';
-    return 'hard';
-  }
+  const distribution = getDifficultyDistribution(sentenceNumber, recentPerformance, adaptive);
+  const rand = random();
+  if (rand < distribution.easy) return 'easy';
+  if (rand < distribution.easy + distribution.medium) return 'medium';
+  return 'hard';
 }
 
 /**
  * Initialize progressive game state
  */
-export function initializeProgressiveGame(): ProgressiveGameState {
+export function initializeProgressiveGame(seed: number = createSeed()): ProgressiveGameState {
   return {
     currentSentenceNumber: 1,
     performanceHistory: [],
     currentDifficulty: 'easy',
-    adaptiveMode: true
+    adaptiveMode: true,
+    seed,
+    draws: 0
   };
 }
 
+// Player data that shapes the next progressive sentence (both optional)
+export interface ProgressiveSelection {
+  ratings?: RatingState; // Oyuncu rating'ine yakın cümleler
+  history?: SentenceHistory; // Görülen cümleler tekrar edilmez
+  categories?: string[]; // Oyuncunun seçtiği kategoriler, boş ise hepsi
+}
+
+// Closest difficulties first, used when a category has no sentence at the wanted difficulty
+const DIFFICULTY_FALLBACK: Record<'easy' | 'medium' | 'hard', ('easy' | 'medium' | 'hard')[]> = {
+  easy: ['easy', 'medium', 'hard'],
+  medium: ['medium', 'easy', 'hard'],
+  hard: ['hard', 'medium', 'easy']
+};
+
 /**
  * Get next sentence with adaptive difficulty
  */
-export function getNextProgressiveSentence(progressiveState: ProgressiveGameState): Sentence {
+export function getNextProgressiveSentence(
+  progressiveState: ProgressiveGameState,
+  random: RandomSource,
+  selection: ProgressiveSelection = {}
+): Sentence {
+  const playable = SENTENCES_DETAILED.filter(sentence => !hasTripleLetterRun(sentence.text));
+  const allSentences = playable.length > 0 ? playable : SENTENCES_DETAILED;
+  const categories = selection.categories ?? [];
+  const inCategories = categories.length > 0
+    ? allSentences.filter(sentence => categories.includes(sentence.category))
+    : allSentences;
+  // Seçilen kategorilerde hiç cümle yoksa tüm katalog kullanılır
+  const catalog = inCategories.length > 0 ? inCategories : allSentences;
+
   const nextDifficulty = calculateNextDifficulty(
     progressiveState.currentSentenceNumber,
-    progressiveState.performanceHistory
+    progressiveState.performanceHistory,
+    random,
+    progressiveState.adaptiveMode
   );
-  
-  return getRandomSentence(nextDifficulty);
+  // Kategoride bu zorlukta cümle yoksa en yakın zorluk, o da yoksa diğer kategoriler
+  const fallbackDifficulty = DIFFICULTY_FALLBACK[nextDifficulty].find(difficulty =>
+    catalog.some(sentence => sentence.difficulty === difficulty)
+  );
+  let pool = fallbackDifficulty
+    ? catalog.filter(sentence => sentence.difficulty === fallbackDifficulty)
+    : allSentences.filter(sentence => sentence.difficulty === nextDifficulty);
+  if (pool.length === 0) {
+    return getRandomSentence(nextDifficulty, random);
+  }
+  if (selection.ratings && isRatingEnabled()) {
+    // Rating açıkken eğrinin seçtiği zorlukta oyuncunun rating'ine en yakın cümlelerden biri seçilir
+    pool = getMatchedSentences(selection.ratings, pool);
+  }
+
+  const picked = selection.history && isSchedulerEnabled()
+    ? pickScheduledSentence(pool, selection.history, random)
+    : pickRandom(pool, random);
+  return getSentenceById(picked.id)!;
+}
+
+/**
+ * Draw the next progressive board from the series seed: the sentence, the board seed and the
+ * state with the draw counted
+ */
+export function drawProgressiveGame(
+  progressiveState: ProgressiveGameState,
+  selection: ProgressiveSelection = {}
+): { sentence: Sentence; seed: number; progressiveState: ProgressiveGameState } {
+  const drawSeed = deriveSeed(progressiveState.seed, 'draw', progressiveState.draws);
+  return {
+    sentence: getNextProgressiveSentence(progressiveState, createSeededRandom(drawSeed), selection),
+    seed: deriveSeed(drawSeed, 'board'),
+    progressiveState: { ...progressiveState, draws: progressiveState.draws + 1 }
+  };
+}
+
+/**
+ * Find the catalog id of a sentence text
+ */
+export function findSentenceId(text: string): number | null {
+  return SENTENCES_DETAILED.find(s => s.text === text)?.id ?? null;
 }
 
 /**
@@ -651,7 +912,11 @@ export function recordGameResult(
   progressiveState: ProgressiveGameState,
   gameResult: GameResult
 ): ProgressiveGameState {
-  const newPerformanceHistory = [...progressiveState.performanceHistory, gameResult];
+  // Kayıt büyümesin diye hamle kaydı yalnızca son oyunlarda tutulur, eski sonuçlar istatistik için kalır
+  const replayStart = progressiveState.performanceHistory.length + 1 - gameSettings.replay.storedGames;
+  const newPerformanceHistory = [...progressiveState.performanceHistory, gameResult].map((result, index) =>
+    index >= replayStart || !result.moves ? result : { ...result, puzzleCode: undefined, moves: undefined }
+  );
   
   return {
     ...progressiveState,
@@ -659,7 +924,9 @@ export function recordGameResult(
     performanceHistory: newPerformanceHistory,
     currentDifficulty: calculateNextDifficulty(
       progressiveState.currentSentenceNumber + 1,
-      newPerformanceHistory
+      newPerformanceHistory,
+      createSeededRandom(deriveSeed(progressiveState.seed, 'difficulty', progressiveState.currentSentenceNumber + 1)),
+      progressiveState.adaptiveMode
     )
   };
 }
@@ -672,137 +939,3 @@ export function formatTime(seconds: number): string {
   const remainingSeconds = seconds % 60;
   return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
-
-/**
- * Initialize a game with a custom sentence
- */
-export function initializeCustomGame(customSentence: Sentence): GameState {
-  const mapping = generateCipherMapping();
-  const cipherSentence = sentenceToCipher(customSentence.text, mapping);
-  
-  const difficultySettings = getDifficultySettings(customSentence.difficulty);
-  
-  // Get all letters from the sentence (without spaces) and normalize for processing
-  const allLetters = normalizeForProcessing(customSentence.text)
-    .split('')
-    .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-  
-  // Kelime bazlı kısıtlamalar kullanılacak - genel oran sistemi kaldırıldı
-  const totalLetters = allLetters.length;
-  
-  // Kelime bazında kısıtlama: Kelime uzunluğuna göre dinamik maksimum harf sayısı
-  const words = customSentence.text.split(' ').filter(word => word.trim() !== '');
-  const revealedLetters = new Set<string>();
-  const wordRevealedPositions = new Map<string, Set<number>>(); // Her kelime için ayrı pozisyon takibi
-  
-  // Her kelime için ayrı ayrı harf seç
-  words.forEach(word => {
-    const wordLetters = word
-      .toUpperCase()
-      .split('')
-      .filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-    
-    if (wordLetters.length === 0) return;
-    
-    const wordLengthCategory = getWordLengthCategory(wordLetters.length);
-    const maxLettersFromWord = difficultySettings.letterRevealLimits[wordLengthCategory as keyof typeof difficultySettings.letterRevealLimits];
-    
-    let lettersFromThisWord: number;
-    const revealProbability = difficultySettings.revealProbability;
-    
-    if (customSentence.difficulty === 'easy') {
-      lettersFromThisWord = maxLettersFromWord;
-    } else if (customSentence.difficulty === 'medium') {
-      if (wordLetters.length <= 4) {
-        const shouldReveal = Math.random() < revealProbability;
-        lettersFromThisWord = shouldReveal ? Math.min(1, maxLettersFromWord) : 0;
-      } else {
-        lettersFromThisWord = maxLettersFromWord;
-      }
-    } else {
-      if (wordLetters.length <= 4) {
-        const shouldReveal = Math.random() < revealProbability;
-        lettersFromThisWord = shouldReveal ? Math.min(1, maxLettersFromWord) : 0;
-      } else {
-        lettersFromThisWord = maxLettersFromWord;
-      }
-    }
-    
-    let selectedPositions: number[] = [];
-    
-    if (lettersFromThisWord > 0) {
-      const originalWordLetters = word.toUpperCase().split('').filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-');
-      
-      const allPositions = originalWordLetters.map((_, index) => index);
-       
-      if (customSentence.difficulty === 'easy') {
-        const gameMechanics = gameSettings.gameMechanics;
-        const commonLetters = gameMechanics.commonLetters;
-        
-        // Kolay modda: Yaygın harfleri tercih et
-        const commonLetterPositions = originalWordLetters
-          .map((letter, index) => ({ letter, index }))
-          .filter(({ letter }) => commonLetters.includes(letter))
-          .map(({ index }) => index);
-        
-        if (commonLetterPositions.length > 0) {
-          const shuffled = [...commonLetterPositions].sort(() => Math.random() - 0.5);
-          selectedPositions = shuffled.slice(0, lettersFromThisWord);
-        } else {
-          // Yaygın harf yoksa rastgele seç
-          const shuffled = [...allPositions].sort(() => Math.random() - 0.5);
-          selectedPositions = shuffled.slice(0, lettersFromThisWord);
-        }
-      } else {
-        // Orta/Zor modda: Rastgele seç
-        const shuffled = [...allPositions].sort(() => Math.random() - 0.5);
-        selectedPositions = shuffled.slice(0, lettersFromThisWord);
-      }
-      
-      // Seçilen pozisyonları işle
-      selectedPositions.forEach(pos => {
-        const letter = originalWordLetters[pos];
-        revealedLetters.add(letter);
-        
-        // Kelime bazlı pozisyon takibi için kelimeyi anahtar olarak kullan
-        if (!wordRevealedPositions.has(word)) {
-          wordRevealedPositions.set(word, new Set());
-        }
-        wordRevealedPositions.get(word)!.add(pos);
-      });
-    }
-  });
-  
-  // İlk açılan harflerin pozisyonlarını hesapla (tüm cümle için)
-  const initialRevealedPositions = new Set<number>();
-  let globalPosition = 0;
-  
-  words.forEach(word => {
-    const wordPositions = wordRevealedPositions.get(word);
-    if (wordPositions) {
-      wordPositions.forEach(pos => {
-        initialRevealedPositions.add(globalPosition + pos);
-      });
-    }
-    globalPosition += word.toUpperCase().split('').filter(char => char !== ' ' && char !== '\'' && char !== '.' && char !== ',' && char !== '!' && char !== '?' && char !== ':' && char !== ';' && char !== '-').length;
-  });
-  
-  return {
-    originalSentence: customSentence.text,
-    cipherSentence,
-    letterMapping: mapping,
-    difficulty: customSentence.difficulty,
-    mistakes: 0,
-    maxMistakes: 3,
-    hintsUsed: 0,
-    maxHints: difficultySettings.hintCount,
-    timeLimit: difficultySettings.timeLimit,
-    startTime: Date.now(),
-    isGameOver: false,
-    isWon: false,
-    revealedLetters,
-    initialRevealedPositions,
-    userRevealedPositions: new Set(),
-    wordRevealedPositions: wordRevealedPositions
-  };
-}
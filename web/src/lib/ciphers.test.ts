@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import gameSettings from '../config/gameSettings.json';
+import { CIPHER_ALPHABET, buildPuzzle, getCipherTokens } from './cipher';
+import { CipherFamily, createCipher, createCipherSpec, getCipherFamilies, parseCipherSpec } from './ciphers';
+import { createSeededRandom } from './random';
+import { getLetters } from './tokenizer';
+
+// Alfabenin her karakteri tahtada en az bir kez geçer
+const ALPHABET_SENTENCE = Array.from(CIPHER_ALPHABET).join('').match(/.{1,5}/gu)!.join(' ');
+const SEEDS = Array.from({ length: 50 }, (_, i) => i + 1);
+const LETTER_RING = Array.from(gameSettings.alphabet.letters + gameSettings.alphabet.extended);
+
+// Atbaş tek uzunluklu harf halkasının ortasındaki harfi kendine yansıtır; bu ailenin tek istisnası
+const ATBASH_SELF_MIRRORED = LETTER_RING.length % 2 === 1 ? [LETTER_RING[(LETTER_RING.length - 1) / 2]] : [];
+
+/**
+ * Characters of a board whose token is the plain character itself
+ */
+function getLeakedCharacters(tokens: string[], letters: string[]): string[] {
+  return letters.filter((letter, position) => tokens[position] === letter);
+}
+
+describe('cipher families', () => {
+  it('puts every alphabet character on the board', () => {
+    expect(new Set(getLetters(ALPHABET_SENTENCE))).toEqual(new Set(CIPHER_ALPHABET));
+  });
+
+  getCipherFamilies().forEach(({ family }) => {
+    it(`never shows a plain character on a ${family} board`, () => {
+      const letters = getLetters(ALPHABET_SENTENCE);
+      SEEDS.forEach(seed => {
+        const game = buildPuzzle(
+          { text: ALPHABET_SENTENCE, difficulty: 'medium', category: '' },
+          { seed, cipher: family }
+        );
+        const leaked = getLeakedCharacters(getCipherTokens(game), letters);
+        expect(leaked, `seed ${seed}`).toEqual(family === 'atbash' ? ATBASH_SELF_MIRRORED : []);
+      });
+    });
+  });
+
+  (['keyword', 'vigenere'] as CipherFamily[]).forEach(family => {
+    it(`never shows a plain character with any configured ${family} key`, () => {
+      const letters = getLetters(ALPHABET_SENTENCE);
+      gameSettings.cipher.keywords.forEach(key => {
+        const cipher = createCipher({ family, key }, new Map());
+        // Her harf anahtarın her konumuyla denenir (Vigenère kaydırması konuma bağlı)
+        Array.from(key).forEach((_, offset) => {
+          const tokens = letters.map((letter, position) => cipher.encode(letter, position + offset));
+          expect(getLeakedCharacters(tokens, letters), `${key} +${offset}`).toEqual([]);
+        });
+      });
+    });
+  });
+
+  describe('parseCipherSpec', () => {
+    const spec = createCipherSpec('homophonic', createSeededRandom(1));
+
+    it('accepts a drawn homophone table', () => {
+      expect(parseCipherSpec(JSON.parse(JSON.stringify(spec)))).toEqual(spec);
+    });
+
+    it('rejects homophones inside the regular number range', () => {
+      expect(parseCipherSpec({ family: 'homophonic', homophones: { A: [CIPHER_ALPHABET.length] } })).toBeNull();
+    });
+
+    it('rejects a homophone shared by two letters', () => {
+      const number = CIPHER_ALPHABET.length + 1;
+      expect(parseCipherSpec({ family: 'homophonic', homophones: { A: [number], E: [number] } })).toBeNull();
+    });
+
+    it('rejects homophones for a character outside the letters', () => {
+      expect(parseCipherSpec({ family: 'homophonic', homophones: { '?': [CIPHER_ALPHABET.length + 1] } })).toBeNull();
+    });
+  });
+});
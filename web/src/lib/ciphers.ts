@@ -0,0 +1,301 @@
+/**
+ * Cipher Families
+ * How a letter is written on the board: the classic numbers, homophonic numbers, Caesar shift,
+ * Atbash, keyword substitution, Vigenère, Polybius square or pictograms. Guesses, hints and
+ * completion work on letters and positions; a cipher only decides the token shown for each position
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import { RandomSource, hashSeed, pickRandom, shuffle } from './random';
+import { TURKISH_LETTER_FREQUENCIES } from './reveal';
+
+export type CipherFamily = 'number' | 'homophonic' | 'caesar' | 'atbash' | 'keyword' | 'vigenere' | 'polybius' | 'symbol';
+
+// Oyun durumunda ve paylaşım kodunda saklanan, şifreyi yeniden kurmaya yeten tanım
+export interface CipherSpec {
+  family: CipherFamily;
+  shift?: number; // caesar
+  key?: string; // keyword, vigenere, polybius
+  homophones?: Record<string, number[]>; // homophonic: sık harflerin ek sayıları
+}
+
+export interface Cipher {
+  spec: CipherSpec;
+  // Token of a letter at a board position (only Vigenère and homophonic ciphers depend on the position)
+  encode(letter: string, position: number): string;
+}
+
+interface CipherFamilyDefinition {
+  name: string;
+  usesMapping: boolean; // Her harfin tek tokenı oyunun sayı eşlemesinden mi geliyor
+  multipleTokensPerLetter?: boolean; // Bir harf birden çok tokenla yazılabilir (homofonik)
+  multipleLettersPerToken?: boolean; // Aynı token farklı harfler olabilir (Vigenère)
+  createSpec: (random: RandomSource) => CipherSpec;
+  create: (spec: CipherSpec, mapping: Map<string, number>) => (letter: string, position: number) => string;
+}
+
+const alphabetSettings = gameSettings.alphabet;
+const cipherSettings = gameSettings.cipher;
+
+// Harfler ve rakamlar ayrı halkalarda kaydırılır, harf hiçbir zaman rakama dönüşmez
+const LETTER_RING = Array.from(alphabetSettings.letters + alphabetSettings.extended);
+const DIGIT_RING = Array.from(alphabetSettings.digits);
+const SYMBOLS = Array.from(cipherSettings.symbols);
+// Homofonik ek sayılar harf ve rakamların 1..alfabe uzunluğu aralığından sonra başlar
+const FIRST_HOMOPHONE_NUMBER = LETTER_RING.length + DIGIT_RING.length + 1;
+
+function getRing(letter: string): string[] | null {
+  if (LETTER_RING.includes(letter)) return LETTER_RING;
+  if (DIGIT_RING.includes(letter)) return DIGIT_RING;
+  return null;
+}
+
+function shiftLetter(letter: string, shift: number): string {
+  const ring = getRing(letter);
+  if (!ring) return letter;
+  const index = ring.indexOf(letter);
+  return ring[(((index + shift) % ring.length) + ring.length) % ring.length];
+}
+
+/**
+ * Keyed alphabet: the distinct letters of the key followed by the rest of the alphabet,
+ * optionally continuing after the last key letter and wrapping around
+ */
+function getKeyedAlphabet(key: string, alphabet: string[], continueAfterKey = false): string[] {
+  const keyLetters = Array.from(key.toLocaleUpperCase('tr-TR')).filter(letter => alphabet.includes(letter));
+  const start = continueAfterKey && keyLetters.length > 0 ? alphabet.indexOf(keyLetters[keyLetters.length - 1]) + 1 : 0;
+  return [...new Set([...keyLetters, ...alphabet.slice(start), ...alphabet.slice(0, start)])];
+}
+
+function createNumberEncoder(_spec: CipherSpec, mapping: Map<string, number>) {
+  return (letter: string) => {
+    const number = mapping.get(letter);
+    return number ? number.toString() : letter;
+  };
+}
+
+/**
+ * Split the extra numbers between letters in proportion to their frequency (largest remainder);
+ * numbers start after the regular 1..alphabet length range and are shuffled between letters
+ */
+function createHomophones(random: RandomSource): Record<string, number[]> {
+  const extraCount = cipherSettings.homophonic.extraNumbers;
+  const letters = Object.keys(TURKISH_LETTER_FREQUENCIES).filter(letter => LETTER_RING.includes(letter));
+  const totalFrequency = letters.reduce((sum, letter) => sum + TURKISH_LETTER_FREQUENCIES[letter], 0);
+  const quotas = letters.map(letter => ({ letter, quota: (TURKISH_LETTER_FREQUENCIES[letter] / totalFrequency) * extraCount }));
+
+  const counts = new Map(quotas.map(({ letter, quota }) => [letter, Math.floor(quota)]));
+  let remaining = extraCount - [...counts.values()].reduce((sum, count) => sum + count, 0);
+  [...quotas]
+    .sort((a, b) => (b.quota % 1) - (a.quota % 1))
+    .forEach(({ letter }) => {
+      if (remaining <= 0) return;
+      counts.set(letter, counts.get(letter)! + 1);
+      remaining--;
+    });
+
+  const numbers = shuffle(Array.from({ length: extraCount }, (_, i) => FIRST_HOMOPHONE_NUMBER + i), random);
+  const homophones: Record<string, number[]> = {};
+  counts.forEach((count, letter) => {
+    if (count > 0) homophones[letter] = numbers.splice(0, count);
+  });
+  return homophones;
+}
+
+function createHomophonicEncoder(spec: CipherSpec, mapping: Map<string, number>) {
+  return (letter: string, position: number) => {
+    const number = mapping.get(letter);
+    if (!number) return letter;
+    const numbers = [number, ...(spec.homophones?.[letter] ?? [])];
+    // Her pozisyon harfin sayılarından birini sabit olarak alır
+    return numbers[hashSeed(`${number}:${position}`) % numbers.length].toString();
+  };
+}
+
+function createSymbolEncoder(_spec: CipherSpec, mapping: Map<string, number>) {
+  return (letter: string) => {
+    const number = mapping.get(letter);
+    // Sembol listesi alfabeden kısaysa sayı gösterilir
+    return number ? SYMBOLS[number - 1] ?? number.toString() : letter;
+  };
+}
+
+/**
+ * Move every letter that would stay in place one step further (swapping with the next slot),
+ * so no letter is written as itself
+ */
+function removeFixedPoints(keyed: string[], alphabet: string[]): string[] {
+  // Takas edilen iki konum da yerinde kalmaz: tek geçiş yeter
+  const result = [...keyed];
+  result.forEach((letter, i) => {
+    if (letter !== alphabet[i]) return;
+    const next = (i + 1) % result.length;
+    [result[i], result[next]] = [result[next], result[i]];
+  });
+  return result;
+}
+
+function createKeywordEncoder(spec: CipherSpec) {
+  // Alfabe baştan devam etseydi anahtardan sonraki harfler (Q, W, X, Â...) çoğu zaman yerinde kalırdı
+  const keyed = removeFixedPoints(getKeyedAlphabet(spec.key ?? '', LETTER_RING, true), LETTER_RING);
+  // Anahtarda rakam olmadığı için rakamlar anahtardan türeyen sıfırdan farklı bir miktar kaydırılır
+  const digitShift = 1 + (hashSeed(spec.key ?? '') % (DIGIT_RING.length - 1));
+  return (letter: string) => {
+    const index = LETTER_RING.indexOf(letter);
+    return index === -1 ? shiftLetter(letter, digitShift) : keyed[index];
+  };
+}
+
+function createVigenereEncoder(spec: CipherSpec) {
+  // A harfi de kaydırır (indeks + 1); halkada tam tur atan kaydırmalar o halkada atlanır, harf açık kalmaz
+  const keyShifts = Array.from((spec.key || 'A').toLocaleUpperCase('tr-TR'))
+    .map(letter => LETTER_RING.indexOf(letter) + 1);
+  const getRingShifts = (ring: string[]) => {
+    const shifts = keyShifts.filter(shift => shift % ring.length !== 0);
+    return shifts.length > 0 ? shifts : [1];
+  };
+  const letterShifts = getRingShifts(LETTER_RING);
+  const digitShifts = getRingShifts(DIGIT_RING);
+  return (letter: string, position: number) => {
+    const shifts = DIGIT_RING.includes(letter) ? digitShifts : letterShifts;
+    return shiftLetter(letter, shifts[position % shifts.length]);
+  };
+}
+
+function createPolybiusEncoder(spec: CipherSpec) {
+  const square = getKeyedAlphabet(spec.key ?? '', [...LETTER_RING, ...DIGIT_RING]);
+  const size = Math.ceil(Math.sqrt(square.length));
+  return (letter: string) => {
+    const index = square.indexOf(letter);
+    if (index === -1) return letter;
+    return `${Math.floor(index / size) + 1}${(index % size) + 1}`;
+  };
+}
+
+const pickKeyword = (random: RandomSource) => pickRandom(cipherSettings.keywords, random);
+
+// Rakam halkasında tam tur atan kaydırmalar rakamları olduğu gibi bırakırdı
+const CAESAR_SHIFTS = Array.from({ length: LETTER_RING.length - 1 }, (_, i) => i + 1)
+  .filter(shift => shift % DIGIT_RING.length !== 0);
+
+const CIPHER_FAMILIES = new Map<CipherFamily, CipherFamilyDefinition>([
+  ['number', { name: 'Sayılar', usesMapping: true, createSpec: () => ({ family: 'number' }), create: createNumberEncoder }],
+  ['homophonic', {
+    name: 'Homofonik (Uzman)',
+    usesMapping: false,
+    multipleTokensPerLetter: true,
+    createSpec: random => ({ family: 'homophonic', homophones: createHomophones(random) }),
+    create: createHomophonicEncoder
+  }],
+  ['symbol', { name: 'Semboller', usesMapping: true, createSpec: () => ({ family: 'symbol' }), create: createSymbolEncoder }],
+  ['caesar', {
+    name: 'Sezar Kaydırma',
+    usesMapping: false,
+    createSpec: random => ({ family: 'caesar', shift: pickRandom(CAESAR_SHIFTS, random) }),
+    create: spec => letter => shiftLetter(letter, spec.shift ?? 0)
+  }],
+  ['atbash', {
+    name: 'Atbaş',
+    usesMapping: false,
+    createSpec: () => ({ family: 'atbash' }),
+    create: () => letter => {
+      const ring = getRing(letter);
+      return ring ? ring[ring.length - 1 - ring.indexOf(letter)] : letter;
+    }
+  }],
+  ['keyword', { name: 'Anahtar Kelime', usesMapping: false, createSpec: random => ({ family: 'keyword', key: pickKeyword(random) }), create: createKeywordEncoder }],
+  ['vigenere', {
+    name: 'Vigenère',
+    usesMapping: false,
+    multipleLettersPerToken: true,
+    createSpec: random => ({ family: 'vigenere', key: pickKeyword(random) }),
+    create: createVigenereEncoder
+  }],
+  ['polybius', { name: 'Polybius Karesi', usesMapping: false, createSpec: random => ({ family: 'polybius', key: pickKeyword(random) }), create: createPolybiusEncoder }]
+]);
+
+export const DEFAULT_CIPHER: CipherSpec = { family: 'number' };
+
+/**
+ * Families with their Turkish names, in menu order
+ */
+export function getCipherFamilies(): Array<{ family: CipherFamily; name: string }> {
+  return [...CIPHER_FAMILIES.entries()].map(([family, definition]) => ({ family, name: definition.name }));
+}
+
+export function isCipherFamily(value: unknown): value is CipherFamily {
+  return typeof value === 'string' && CIPHER_FAMILIES.has(value as CipherFamily);
+}
+
+export function getDefaultCipherFamily(): CipherFamily {
+  return isCipherFamily(cipherSettings.defaultFamily) ? cipherSettings.defaultFamily : 'number';
+}
+
+/**
+ * Whether every letter has exactly one board token taken from the letter → number mapping
+ * (false: tokens follow the letters or a letter has several tokens, so another reading of
+ * the board cannot be swapped in by only changing the mapping)
+ */
+export function usesNumberMapping(spec: CipherSpec): boolean {
+  return CIPHER_FAMILIES.get(spec.family)?.usesMapping ?? true;
+}
+
+/**
+ * Whether a token always stands for the same letter, so fill mode can fill every cell of a token
+ */
+export function hasFixedTokenLetters(spec: CipherSpec): boolean {
+  return !CIPHER_FAMILIES.get(spec.family)?.multipleLettersPerToken;
+}
+
+/**
+ * Whether every letter has a single token, so one letter on two tokens is a conflict
+ */
+export function hasSingleTokenPerLetter(spec: CipherSpec): boolean {
+  return !CIPHER_FAMILIES.get(spec.family)?.multipleTokensPerLetter;
+}
+
+/**
+ * Draw the parameters of a family (shift, keyword, homophones)
+ */
+export function createCipherSpec(family: CipherFamily, random: RandomSource): CipherSpec {
+  return (CIPHER_FAMILIES.get(family) ?? CIPHER_FAMILIES.get('number')!).createSpec(random);
+}
+
+/**
+ * Homophone table check: letter keys, extra numbers after the regular 1..alphabet length range,
+ * no number shared by two letters (a shared or regular number would make a token ambiguous)
+ */
+function isHomophoneTable(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const numbers = Object.values(value).flat() as unknown[];
+  return Object.keys(value).every(letter => LETTER_RING.includes(letter)) &&
+    Object.values(value).every(Array.isArray) &&
+    numbers.every(number => Number.isInteger(number) && (number as number) >= FIRST_HOMOPHONE_NUMBER) &&
+    new Set(numbers).size === numbers.length;
+}
+
+/**
+ * Validate a spec read from a share code or a save
+ */
+export function parseCipherSpec(value: unknown): CipherSpec | null {
+  if (!value || typeof value !== 'object') return null;
+  const { family, shift, key, homophones } = value as Record<string, unknown>;
+  if (!isCipherFamily(family)) return null;
+  if (shift !== undefined && !Number.isInteger(shift)) return null;
+  if (key !== undefined && typeof key !== 'string') return null;
+  if (homophones !== undefined && !isHomophoneTable(homophones)) return null;
+  return {
+    family,
+    shift: shift as number | undefined,
+    key: key as string | undefined,
+    homophones: homophones as Record<string, number[]> | undefined
+  };
+}
+
+/**
+ * Cipher for a spec; mapping-based families read the game's letter → number mapping
+ */
+export function createCipher(spec: CipherSpec, mapping: Map<string, number>): Cipher {
+  const definition = CIPHER_FAMILIES.get(spec.family) ?? CIPHER_FAMILIES.get('number')!;
+  return { spec, encode: definition.create(spec, mapping) };
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import sentencesData from '../data/sentences.json';
+import { CIPHER_ALPHABET, getSentenceById, loadSentenceCatalog } from './cipher';
+import type { CatalogSentence } from './catalog';
+import { getDailySentenceId, initializeDailyGame } from './daily';
+import { getWordLetters } from './tokenizer';
+
+const BUNDLED = sentencesData.sentences as CatalogSentence[];
+const DATE_KEY = '2026-01-01';
+
+/**
+ * Words that fit the cipher pattern of one sentence word: a letter used only in that word is
+ * swapped for a letter missing from the sentence, so each one is a second reading of the board
+ */
+function getLookalikeWords(text: string): string[] {
+  const words = getWordLetters(text);
+  const used = new Set(words.flat());
+  const unused = Array.from(CIPHER_ALPHABET).filter(char => /\p{L}/u.test(char) && !used.has(char));
+  return words.flatMap((word, wordIndex) => word
+    .filter(letter => !words.some((other, otherIndex) => otherIndex !== wordIndex && other.includes(letter)))
+    .flatMap(letter => unused.map(replacement => word.map(char => (char === letter ? replacement : char)).join(''))));
+}
+
+describe('initializeDailyGame', () => {
+  afterEach(() => loadSentenceCatalog(BUNDLED));
+
+  it('builds the same board whatever the admin catalog holds', () => {
+    const before = initializeDailyGame(DATE_KEY);
+
+    // Panelden eklenmiş gibi: günün cümlesine benzeyen kelimelerle dolu bir cümle
+    const text = getLookalikeWords(getSentenceById(getDailySentenceId(DATE_KEY))!.text).join(' ');
+    loadSentenceCatalog([...BUNDLED, {
+      id: Math.max(...BUNDLED.map(sentence => sentence.id)) + 1,
+      text,
+      difficulty: 'hard',
+      category: 'Test',
+      wordCount: text.split(' ').length,
+      letterCount: text.replace(/ /g, '').length,
+      hasSpecialChars: false,
+      tags: []
+    }]);
+
+    const after = initializeDailyGame(DATE_KEY);
+    expect([...after.initialRevealedPositions]).toEqual([...before.initialRevealedPositions]);
+    expect(after.letterMapping).toEqual(before.letterMapping);
+  });
+});
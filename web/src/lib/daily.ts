@@ -0,0 +1,137 @@
+/**
+ * Daily Puzzle ("Günün Şifresi")
+ * Everyone gets the same sentence, mapping and reveals for a given Istanbul calendar date
+ */
+
+import sentencesData from '../data/sentences.json';
+import { GameState, GameResult, buildPuzzle } from './cipher';
+import type { CatalogSentence } from './catalog';
+import { hashSeed } from './random';
+import { applyAmbiguityPolicy } from './ambiguity';
+import { getBundledSolverDictionary } from './solver';
+
+const DAILY_TIME_ZONE = 'Europe/Istanbul';
+const DAILY_STORAGE_KEY = 'kriptografya.daily';
+
+// Günlük şifre paketlenmiş katalogdan seçilir: yönetici düzenlemeleri o günün tahtasını oyuncular arasında değiştirmez
+const DAILY_SENTENCES: CatalogSentence[] = sentencesData.sentences
+  .filter((sentence: CatalogSentence) => !sentence.retired)
+  .sort((a, b) => a.id - b.id);
+
+export interface DailyRecord {
+  dateKey: string;
+  sentenceId: number;
+  result: GameResult | null; // null: başlandı, henüz bitmedi
+}
+
+/**
+ * Get the calendar date in Istanbul as YYYY-MM-DD
+ */
+export function getDailyDateKey(date: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: DAILY_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * Seed shared by every player for the given date
+ */
+export function getDailySeed(dateKey: string): number {
+  return hashSeed(`daily:${dateKey}`);
+}
+
+/**
+ * Pick the sentence of the day from the bundled catalog, sorted by id so the pick does not
+ * depend on the order of sentences.json
+ */
+function getDailySentence(dateKey: string): CatalogSentence {
+  return DAILY_SENTENCES[getDailySeed(dateKey) % DAILY_SENTENCES.length];
+}
+
+/**
+ * Pick the sentence id of the day
+ */
+export function getDailySentenceId(dateKey: string): number {
+  return getDailySentence(dateKey).id;
+}
+
+/**
+ * Initialize the daily game for the given date
+ */
+export function initializeDailyGame(dateKey: string = getDailyDateKey()): GameState {
+  const sentence = getDailySentence(dateKey);
+  if (!sentence) {
+    throw new Error(`Daily sentence not found for ${dateKey}`);
+  }
+  // Panelden eklenen cümleler sözlüğü değiştirmesin diye yalnızca paketteki katalog kullanılır;
+  // böylece günün tahtası her oyuncuda aynı olur
+  return applyAmbiguityPolicy(buildPuzzle({
+    text: sentence.text,
+    difficulty: sentence.difficulty as 'easy' | 'medium' | 'hard',
+    category: sentence.category
+  }, { seed: getDailySeed(dateKey) }), getBundledSolverDictionary());
+}
+
+/**
+ * Read the stored daily records (empty on the server or when storage is unavailable)
+ */
+export function getDailyRecords(): DailyRecord[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(DAILY_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as DailyRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the record for the given date, if the daily puzzle was already played
+ */
+export function getDailyRecord(dateKey: string = getDailyDateKey()): DailyRecord | null {
+  return getDailyRecords().find(record => record.dateKey === dateKey) ?? null;
+}
+
+/**
+ * Check if the daily puzzle of the given date was already started (finished or not)
+ */
+export function hasPlayedDaily(dateKey: string = getDailyDateKey()): boolean {
+  return getDailyRecord(dateKey) !== null;
+}
+
+function writeDailyRecords(records: DailyRecord[]): boolean {
+  try {
+    window.localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(records));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Mark the daily puzzle as played when it starts, so reloading or abandoning it does not allow another try
+ */
+export function markDailyStarted(dateKey: string): boolean {
+  if (typeof window === 'undefined' || hasPlayedDaily(dateKey)) return false;
+  return writeDailyRecords([...getDailyRecords(), { dateKey, sentenceId: getDailySentenceId(dateKey), result: null }]);
+}
+
+/**
+ * Store the result of the daily puzzle; replays of an already finished date are ignored
+ */
+export function recordDailyResult(dateKey: string, result: GameResult): boolean {
+  if (typeof window === 'undefined') return false;
+
+  const records = getDailyRecords();
+  const existing = records.find(record => record.dateKey === dateKey);
+  if (existing?.result) return false;
+
+  const record: DailyRecord = { dateKey, sentenceId: getDailySentenceId(dateKey), result };
+  return writeDailyRecords(existing
+    ? records.map(r => (r === existing ? record : r))
+    : [...records, record]);
+}
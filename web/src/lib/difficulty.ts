@@ -0,0 +1,65 @@
+/**
+ * Sentence Difficulty Estimator
+ * Scores a sentence 0-100 from its text and maps the score to easy/medium/hard
+ * (weights and thresholds in gameSettings.difficultyEstimator)
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import { getWordLengthCategory } from './cipher';
+import { getWordLetters, tokenize } from './tokenizer';
+
+export interface DifficultyFeatures {
+  length: number; // Harf sayısı, maxLetterCount'a göre 0-1
+  wordLength: number; // Kelime uzunluğu gruplarının ortalama skoru, 0-1
+  rareLetters: number; // commonLetters dışındaki harflerin oranı, 0-1
+  uniqueLetters: number; // Farklı harf oranı - tekrar az ise çözmek zor, 0-1
+  punctuation: number; // Özel karakter sayısı (3 ve üstü = 1), 0-1
+}
+
+export interface DifficultyEstimate {
+  difficulty: 'easy' | 'medium' | 'hard';
+  score: number; // 0-100
+  features: DifficultyFeatures;
+}
+
+/**
+ * Measure the features the estimate is built from
+ */
+export function getDifficultyFeatures(text: string): DifficultyFeatures {
+  const settings = gameSettings.difficultyEstimator;
+  const commonLetters = gameSettings.gameMechanics.commonLetters;
+
+  const words = getWordLetters(text).filter(letters => letters.length > 0);
+  const letters = words.flat();
+  if (letters.length === 0) {
+    return { length: 0, wordLength: 0, rareLetters: 0, uniqueLetters: 0, punctuation: 0 };
+  }
+
+  const wordLengthScores = settings.wordLengthScores as Record<string, number>;
+  const specialCount = tokenize(text).tokens.filter(token => token.type === 'punctuation' || token.type === 'quote').length;
+
+  return {
+    length: Math.min(letters.length / settings.maxLetterCount, 1),
+    wordLength: words.reduce((sum, word) => sum + (wordLengthScores[getWordLengthCategory(word.length)] ?? 0), 0) / words.length,
+    rareLetters: letters.filter(letter => !commonLetters.includes(letter)).length / letters.length,
+    uniqueLetters: new Set(letters).size / letters.length,
+    punctuation: Math.min(specialCount / 3, 1)
+  };
+}
+
+/**
+ * Estimate how hard a sentence plays
+ */
+export function estimateSentenceDifficulty(text: string): DifficultyEstimate {
+  const { weights, thresholds } = gameSettings.difficultyEstimator;
+  const features = getDifficultyFeatures(text);
+
+  const totalWeight = (Object.keys(weights) as (keyof DifficultyFeatures)[])
+    .reduce((sum, feature) => sum + weights[feature], 0);
+  const weighted = (Object.keys(weights) as (keyof DifficultyFeatures)[])
+    .reduce((sum, feature) => sum + weights[feature] * features[feature], 0);
+  const score = Math.round((weighted / totalWeight) * 100);
+
+  const difficulty = score >= thresholds.hard ? 'hard' : score >= thresholds.medium ? 'medium' : 'easy';
+  return { difficulty, score, features };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, buildPuzzle, getElapsedTime, getRandomSentence, getSolutionText } from './cipher';
+import { EngineState, createEngineState, getSelectablePositions, isPaused, reduce } from './engine';
+import { createSeededRandom } from './random';
+import { getLetters } from './tokenizer';
+
+const START = 1_700_000_000_000;
+const SECOND = 1000;
+
+function createGame(): GameState {
+  const sentence = getRandomSentence('medium', createSeededRandom(3));
+  return { ...buildPuzzle(sentence, { seed: 3 }), startTime: START };
+}
+
+/**
+ * A letter that is not the solution at the position
+ */
+function getWrongLetter(game: GameState, index: number): string {
+  const correct = getLetters(getSolutionText(game))[index];
+  return correct === 'Ğ' ? 'J' : 'Ğ';
+}
+
+function guessCorrectly(state: EngineState, index: number, at: number): EngineState {
+  return reduce(state, { type: 'GUESS', letter: getLetters(getSolutionText(state.game))[index], index, at });
+}
+
+describe('reduce', () => {
+  describe('PAUSE / RESUME', () => {
+    it('stops the clock while paused', () => {
+      const paused = reduce(createEngineState(createGame(), START), { type: 'PAUSE', at: START + 10 * SECOND });
+      expect(isPaused(paused.game)).toBe(true);
+      expect(getElapsedTime(paused.game, START + 50 * SECOND)).toBe(10 * SECOND);
+
+      const resumed = reduce(paused, { type: 'RESUME', at: START + 40 * SECOND });
+      expect(isPaused(resumed.game)).toBe(false);
+      expect(resumed.game.pausedMs).toBe(30 * SECOND);
+      expect(getElapsedTime(resumed.game, START + 50 * SECOND)).toBe(20 * SECOND);
+    });
+
+    it('ignores moves, ticks and a second pause while paused', () => {
+      const paused = reduce(createEngineState(createGame(), START), { type: 'PAUSE', at: START });
+      const index = getSelectablePositions(paused.game)[0];
+      expect(guessCorrectly(paused, index, START + SECOND)).toBe(paused);
+      expect(reduce(paused, { type: 'HINT', at: START + SECOND })).toBe(paused);
+      expect(reduce(paused, { type: 'TICK', now: START + 3600 * SECOND })).toBe(paused);
+      expect(reduce(paused, { type: 'PAUSE', at: START + SECOND })).toBe(paused);
+    });
+
+    it('does not resume a running game', () => {
+      const state = createEngineState(createGame(), START);
+      expect(reduce(state, { type: 'RESUME', at: START + SECOND })).toBe(state);
+    });
+  });
+
+  describe('UNDO', () => {
+    it('is ignored unless undo is allowed', () => {
+      const state = createEngineState(createGame(), START);
+      const guessed = guessCorrectly(state, getSelectablePositions(state.game)[0], START + SECOND);
+      expect(reduce(guessed, { type: 'UNDO', at: START + 2 * SECOND })).toBe(guessed);
+    });
+
+    it('takes back the last correct guess', () => {
+      const state = createEngineState(createGame(), START, true);
+      const [first, second] = getSelectablePositions(state.game);
+      const guessed = guessCorrectly(guessCorrectly(state, first, START + SECOND), second, START + 2 * SECOND);
+
+      const undone = reduce(guessed, { type: 'UNDO', at: START + 3 * SECOND });
+      expect([...undone.game.userRevealedPositions]).toEqual([first]);
+      expect(undone.selectedIndex).toBe(second);
+      expect(undone.game.moveLog.at(-1)).toEqual({ type: 'undo', at: START + 3 * SECOND });
+
+      // İkinci geri alma ilk tahmini, üçüncüsü hiçbir şeyi geri almaz
+      const twice = reduce(undone, { type: 'UNDO', at: START + 4 * SECOND });
+      expect(twice.game.userRevealedPositions.size).toBe(0);
+      expect(reduce(twice, { type: 'UNDO', at: START + 5 * SECOND })).toBe(twice);
+    });
+
+    it('keeps wrong guesses and their mistakes', () => {
+      const state = createEngineState(createGame(), START, true);
+      const index = getSelectablePositions(state.game)[0];
+      const wrong = reduce(state, { type: 'GUESS', letter: getWrongLetter(state.game, index), index, at: START + SECOND });
+      expect(wrong.game.mistakes).toBe(1);
+      expect(reduce(wrong, { type: 'UNDO', at: START + 2 * SECOND })).toBe(wrong);
+    });
+
+    it('takes back a hint and gives it back', () => {
+      const state = createEngineState(createGame(), START, true);
+      const hinted = reduce(state, { type: 'HINT', at: START + SECOND });
+      expect(hinted.game.hintsUsed).toBe(1);
+
+      const undone = reduce(hinted, { type: 'UNDO', at: START + 2 * SECOND });
+      expect(undone.game.hintsUsed).toBe(0);
+      expect(undone.game.userRevealedPositions.size).toBe(0);
+    });
+  });
+});
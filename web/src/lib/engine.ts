@@ -0,0 +1,398 @@
+/**
+ * Game Engine
+ * Pure reducer that owns every game rule; UI and headless callers only dispatch actions
+ */
+
+import {
+  GameMove,
+  GameState,
+  ProgressiveGameState,
+  checkAssignments,
+  getCipherTokens,
+  getRemainingTime,
+  getSolutionText,
+  setAcceptedReading,
+  makeAssignment,
+  makeGuess,
+  useHint as getHint
+} from './cipher';
+import { findAlternativeReading } from './ambiguity';
+import { countLetters } from './tokenizer';
+
+export interface EngineState {
+  game: GameState;
+  selectedIndex: number | null; // Seçili harf pozisyonu
+  remainingTime: number; // Saniye cinsinden, timeLimit 0 ise 0
+  lastEvent: EngineEvent | null; // Son aksiyonun sonucu (animasyonlar için)
+  allowUndo: boolean; // Geri alma sadece istatistiğe sayılmayan oyunlarda açık
+}
+
+export type EngineEvent =
+  | { type: 'correct'; index: number; letter: string }
+  | { type: 'wrong'; index: number; letter: string }
+  | { type: 'assign'; index: number; letter: string }
+  | { type: 'hint'; positions: number[] }
+  | { type: 'hintRejected'; message: string }
+  | { type: 'timeout' }
+  | { type: 'undo'; move: GameMove };
+
+// `at` is the move timestamp written to the log; pass it for fully deterministic runs
+export type GameAction =
+  | { type: 'SELECT'; index: number | null; at?: number }
+  | { type: 'GUESS'; letter: string; index?: number; at?: number }
+  | { type: 'HINT'; progressiveState?: ProgressiveGameState; positions?: number[]; at?: number }
+  | { type: 'TICK'; now: number }
+  | { type: 'TIMEOUT'; at?: number }
+  | { type: 'UNDO'; at?: number }
+  | { type: 'PAUSE'; at?: number }
+  | { type: 'RESUME'; at?: number }
+  | { type: 'RESET'; game: GameState; now?: number; allowUndo?: boolean };
+
+/**
+ * Number of letter positions in the sentence
+ */
+function getLetterCount(game: GameState): number {
+  return countLetters(getSolutionText(game));
+}
+
+/**
+ * Check if the game clock is paused (the board is hidden and moves are ignored)
+ */
+export function isPaused(game: GameState): boolean {
+  return game.pausedAt !== null;
+}
+
+/**
+ * Why a finished game ended
+ */
+export function getGameOverReason(game: GameState): 'won' | 'timeout' | 'mistakes' | null {
+  if (!game.isGameOver) return null;
+  if (game.isWon) return 'won';
+  return game.moveLog.some(move => move.type === 'timeout') ? 'timeout' : 'mistakes';
+}
+
+/**
+ * Check if a letter position is already revealed
+ */
+export function isPositionRevealed(game: GameState, index: number): boolean {
+  return game.initialRevealedPositions.has(index) || game.userRevealedPositions.has(index);
+}
+
+/**
+ * Positions the player can still select, in sentence order
+ */
+export function getSelectablePositions(game: GameState): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i < getLetterCount(game); i++) {
+    if (!isPositionRevealed(game, i)) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Next selectable position after (or before) the given one, wrapping around
+ */
+export function getAdjacentSelectablePosition(
+  game: GameState,
+  fromIndex: number | null,
+  direction: 'left' | 'right'
+): number | null {
+  const selectable = getSelectablePositions(game);
+  if (selectable.length === 0) return null;
+  if (fromIndex === null) return selectable[0];
+
+  if (direction === 'right') {
+    return selectable.find(index => index > fromIndex) ?? selectable[0];
+  }
+  const before = selectable.filter(index => index < fromIndex);
+  return before.length > 0 ? before[before.length - 1] : selectable[selectable.length - 1];
+}
+
+/**
+ * Create the engine state for a freshly initialized game
+ */
+export function createEngineState(game: GameState, now: number = Date.now(), allowUndo = false): EngineState {
+  return {
+    game,
+    selectedIndex: game.isGameOver ? null : getAdjacentSelectablePosition(game, null, 'right'),
+    remainingTime: game.timeLimit > 0 ? getRemainingTime(game, now) : 0,
+    lastEvent: null,
+    allowUndo
+  };
+}
+
+/**
+ * Fill mode: next unrevealed position after the given one whose token has no letter yet, wrapping around
+ */
+function getNextUnassignedPosition(game: GameState, fromIndex: number): number | null {
+  const tokens = getCipherTokens(game);
+  const unassigned = getSelectablePositions(game).filter(index => !game.assignments.has(tokens[index]));
+  if (unassigned.length === 0) return fromIndex;
+  return unassigned.find(index => index > fromIndex) ?? unassigned[0];
+}
+
+/**
+ * Find the last correct guess, letter assignment or hint that has not been undone yet
+ */
+export function getUndoableMoveIndex(game: GameState): number {
+  for (let i = game.moveLog.length - 1; i >= 0; i--) {
+    const move = game.moveLog[i];
+    if (((move.type === 'guess' && move.isCorrect) || move.type === 'assign' || move.type === 'hint') && !move.undone) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Append a move to the game's log
+ */
+function appendMove(game: GameState, move: GameMove): GameState {
+  return { ...game, moveLog: [...game.moveLog, move] };
+}
+
+/**
+ * Keep the selection on an unrevealed position, moving forward if needed
+ */
+function fixSelection(game: GameState, selectedIndex: number | null): number | null {
+  if (game.isGameOver) return null;
+  if (selectedIndex !== null && !isPositionRevealed(game, selectedIndex)) return selectedIndex;
+  return getAdjacentSelectablePosition(game, selectedIndex, 'right');
+}
+
+/**
+ * Fill mode guess: the letter goes to every cell with the selected cell's token; the board is checked
+ * once it is full, so only a fully filled wrong board counts as a mistake
+ */
+function reduceAssignment(state: EngineState, index: number, letter: string, at: number): EngineState {
+  const { game } = state;
+  const assigned = makeAssignment(game, letter, index);
+  if (!assigned.success) return state;
+
+  const newGame = appendMove(assigned.newState, {
+    type: 'assign',
+    index,
+    letter,
+    previous: game.assignments.get(getCipherTokens(game)[index]) ?? null,
+    at
+  });
+  if (assigned.check === 'correct') {
+    return { ...state, game: newGame, selectedIndex: null, lastEvent: { type: 'correct', index, letter } };
+  }
+  if (assigned.check === 'wrong') {
+    // Tahta dolu ama yanlış: imleç yerinde kalır, oyuncu atamaları düzeltir
+    return {
+      ...state,
+      game: newGame,
+      selectedIndex: newGame.isGameOver ? null : index,
+      lastEvent: { type: 'wrong', index, letter }
+    };
+  }
+  return {
+    ...state,
+    game: newGame,
+    selectedIndex: getNextUnassignedPosition(newGame, index),
+    lastEvent: { type: 'assign', index, letter }
+  };
+}
+
+/**
+ * Apply an action to the engine state
+ */
+export function reduce(state: EngineState, action: GameAction): EngineState {
+  const { game } = state;
+
+  // Duraklatılmış oyunda sadece devam ettirme ve sıfırlama çalışır
+  if (isPaused(game) && action.type !== 'RESUME' && action.type !== 'RESET') return state;
+
+  switch (action.type) {
+    case 'RESET':
+      return createEngineState(action.game, action.now, action.allowUndo);
+
+    case 'SELECT': {
+      if (game.isGameOver || action.index === state.selectedIndex) return state;
+      if (action.index !== null && (action.index < 0 || action.index >= getLetterCount(game) || isPositionRevealed(game, action.index))) {
+        return state;
+      }
+      return {
+        ...state,
+        game: appendMove(game, { type: 'select', index: action.index, at: action.at ?? Date.now() }),
+        selectedIndex: action.index,
+        lastEvent: null
+      };
+    }
+
+    case 'GUESS': {
+      const index = action.index ?? state.selectedIndex;
+      if (game.isGameOver || index === null || isPositionRevealed(game, index)) return state;
+
+      const letter = action.letter.toLocaleUpperCase('tr-TR');
+      if (game.fillMode) {
+        return reduceAssignment(state, index, letter, action.at ?? Date.now());
+      }
+      let guessed = makeGuess(game, letter, index);
+      let switchedReading = false;
+      if (!guessed.success) {
+        // Tahmin başka geçerli bir okumaya uyuyorsa oyun o okumaya geçer
+        const alternativeGame = findAlternativeReading(game, index, letter);
+        if (alternativeGame) {
+          guessed = makeGuess(alternativeGame, letter, index);
+          switchedReading = guessed.success;
+        }
+      }
+      const result = {
+        ...guessed,
+        newState: appendMove(guessed.newState, {
+          type: 'guess',
+          index,
+          letter,
+          isCorrect: guessed.success,
+          at: action.at ?? Date.now(),
+          // Geri alınınca önceki okumaya dönülür
+          ...(switchedReading ? { previousReading: game.acceptedReading } : {})
+        })
+      };
+      if (result.success) {
+        // Süreli oyunlarda doğru tahmin ek süre kazandırır
+        const newGame = !result.newState.isGameOver && game.timeLimit > 0 && game.timeBonus > 0
+          ? { ...result.newState, bonusTime: result.newState.bonusTime + game.timeBonus }
+          : result.newState;
+        // Doğru tahminde imleç sağdaki ilk boş kutuya geçer
+        return {
+          ...state,
+          game: newGame,
+          remainingTime: newGame.timeLimit > 0 ? getRemainingTime(newGame, action.at ?? Date.now()) : 0,
+          selectedIndex: result.newState.isGameOver ? null : getAdjacentSelectablePosition(result.newState, index, 'right'),
+          lastEvent: { type: 'correct', index, letter }
+        };
+      }
+      // Yanlış tahminde imleç yerinde kalır
+      return {
+        ...state,
+        game: result.newState,
+        selectedIndex: result.newState.isGameOver ? null : index,
+        lastEvent: { type: 'wrong', index, letter }
+      };
+    }
+
+    case 'HINT': {
+      if (game.isGameOver) return state;
+
+      // Tekrar izlemede kayıttaki pozisyonlar kullanılır
+      const hintResult = action.positions
+        ? { success: true, revealedPositions: action.positions, message: '' }
+        : getHint(game, action.progressiveState);
+      if (!hintResult.success || !hintResult.revealedPositions) {
+        return { ...state, lastEvent: { type: 'hintRejected', message: hintResult.message } };
+      }
+
+      const userRevealedPositions = new Set(game.userRevealedPositions);
+      hintResult.revealedPositions.forEach(position => userRevealedPositions.add(position));
+
+      const newGame: GameState = appendMove({
+        ...game,
+        userRevealedPositions,
+        hintsUsed: game.hintsUsed + 1
+      }, { type: 'hint', positions: hintResult.revealedPositions, at: action.at ?? Date.now() });
+      // Doldurma modunda kalan kutular doğru atanmışsa ipucu oyunu bitirir
+      if (getSelectablePositions(newGame).length === 0 || (newGame.fillMode && checkAssignments(newGame) === 'correct')) {
+        newGame.isWon = true;
+        newGame.isGameOver = true;
+      }
+
+      return {
+        ...state,
+        game: newGame,
+        selectedIndex: fixSelection(newGame, state.selectedIndex),
+        lastEvent: { type: 'hint', positions: hintResult.revealedPositions }
+      };
+    }
+
+    case 'TICK': {
+      if (game.isGameOver || game.timeLimit === 0) return state;
+
+      const remainingTime = getRemainingTime(game, action.now);
+      if (remainingTime <= 0) {
+        return reduce({ ...state, remainingTime: 0 }, { type: 'TIMEOUT', at: action.now });
+      }
+      if (remainingTime === state.remainingTime) return state;
+      return { ...state, remainingTime };
+    }
+
+    case 'TIMEOUT': {
+      if (game.isGameOver) return state;
+      return {
+        ...state,
+        game: appendMove({ ...game, isGameOver: true, isWon: false }, { type: 'timeout', at: action.at ?? Date.now() }),
+        selectedIndex: null,
+        remainingTime: 0,
+        lastEvent: { type: 'timeout' }
+      };
+    }
+
+    case 'UNDO': {
+      // Yanlış tahminler geri alınamaz; sadece son doğru tahmin veya ipucu
+      if (!state.allowUndo || game.isGameOver) return state;
+      const moveIndex = getUndoableMoveIndex(game);
+      if (moveIndex === -1) return state;
+
+      const move = game.moveLog[moveIndex];
+      const userRevealedPositions = new Set(game.userRevealedPositions);
+      const assignments = new Map(game.assignments);
+      let hintsUsed = game.hintsUsed;
+      let bonusTime = game.bonusTime;
+      if (move.type === 'assign') {
+        // Atamadan önceki harf geri gelir; tahta dolu ve yanlışken sayılan hata geri alınmaz
+        const token = getCipherTokens(game)[move.index];
+        if (move.previous) assignments.set(token, move.previous);
+        else assignments.delete(token);
+      } else if (move.type === 'guess') {
+        userRevealedPositions.delete(move.index);
+        bonusTime = game.timeLimit > 0 ? Math.max(0, bonusTime - game.timeBonus) : bonusTime;
+      } else if (move.type === 'hint') {
+        move.positions.forEach(position => userRevealedPositions.delete(position));
+        hintsUsed -= 1;
+      }
+
+      const moveLog = [...game.moveLog];
+      moveLog[moveIndex] = { ...move, undone: true } as GameMove;
+      // Tahmin oyunu alternatif okumaya geçirdiyse geri alma önceki okumayı da geri getirir
+      const restoredGame = move.type === 'guess' && move.previousReading !== undefined
+        ? setAcceptedReading(game, move.previousReading)
+        : game;
+      const newGame = appendMove(
+        { ...restoredGame, userRevealedPositions, assignments, hintsUsed, bonusTime, moveLog },
+        { type: 'undo', at: action.at ?? Date.now() }
+      );
+
+      return {
+        ...state,
+        game: newGame,
+        selectedIndex: move.type === 'guess' || move.type === 'assign' ? move.index : fixSelection(newGame, state.selectedIndex),
+        lastEvent: { type: 'undo', move }
+      };
+    }
+
+    case 'PAUSE': {
+      if (game.isGameOver) return state;
+      return { ...state, game: { ...game, pausedAt: action.at ?? Date.now() }, lastEvent: null };
+    }
+
+    case 'RESUME': {
+      if (!isPaused(game)) return state;
+      const now = action.at ?? Date.now();
+      const newGame = { ...game, pausedAt: null, pausedMs: game.pausedMs + (now - game.pausedAt!) };
+      return {
+        ...state,
+        game: newGame,
+        remainingTime: newGame.timeLimit > 0 ? getRemainingTime(newGame, now) : 0,
+        lastEvent: null
+      };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Progressive Difficulty Curve
+ * Base easy/medium/hard probabilities come from progressiveSystem.sentenceRanges and are
+ * shifted by the configurable adaptive rules according to the player's recent games
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import type { GameResult } from './cipher';
+
+export type DifficultyDistribution = Record<'easy' | 'medium' | 'hard', number>;
+
+export type PerformanceMetric = 'winRate' | 'averageMistakes' | 'averageHints' | 'averageTimeSpent';
+
+export type PerformanceMetrics = Record<PerformanceMetric, number>;
+
+export interface AdaptiveRule {
+  metric: PerformanceMetric;
+  operator: '<' | '<=' | '>' | '>=';
+  value: number;
+  shift: number; // Pozitif: daha zor, negatif: daha kolay
+  description: string;
+}
+
+const adaptiveSettings = gameSettings.progressiveSystem.adaptive;
+
+/**
+ * Base probabilities for a sentence number, from the "1-5" / "31+" style ranges
+ */
+export function getBaseDistribution(sentenceNumber: number): DifficultyDistribution {
+  const ranges = gameSettings.progressiveSystem.sentenceRanges as Record<string, DifficultyDistribution>;
+  const match = Object.entries(ranges).find(([range]) => {
+    const [min, max] = range.endsWith('+')
+      ? [Number(range.slice(0, -1)), Infinity]
+      : range.split('-').map(Number);
+    return sentenceNumber >= min && sentenceNumber <= max;
+  });
+  return match ? { ...match[1] } : { easy: 1, medium: 0, hard: 0 };
+}
+
+/**
+ * Averages over the last games of the adaptive window
+ */
+export function getPerformanceMetrics(recentPerformance: GameResult[]): PerformanceMetrics | null {
+  const games = recentPerformance.slice(-adaptiveSettings.window);
+  if (games.length === 0) return null;
+
+  const average = (value: (game: GameResult) => number) =>
+    games.reduce((sum, game) => sum + value(game), 0) / games.length;
+
+  return {
+    winRate: average(game => (game.isWon ? 1 : 0)),
+    averageMistakes: average(game => game.mistakes),
+    averageHints: average(game => game.hintsUsed),
+    averageTimeSpent: average(game => game.timeSpent)
+  };
+}
+
+function matchesRule(rule: AdaptiveRule, metrics: PerformanceMetrics): boolean {
+  const value = metrics[rule.metric];
+  switch (rule.operator) {
+    case '<': return value < rule.value;
+    case '<=': return value <= rule.value;
+    case '>': return value > rule.value;
+    case '>=': return value >= rule.value;
+  }
+}
+
+/**
+ * Rules that apply to the given metrics
+ */
+export function getMatchingRules(metrics: PerformanceMetrics): AdaptiveRule[] {
+  return (adaptiveSettings.rules as AdaptiveRule[]).filter(rule => matchesRule(rule, metrics));
+}
+
+/**
+ * Total shift of the matching rules, limited to ±maxShift
+ */
+export function getAdaptiveShift(metrics: PerformanceMetrics): number {
+  const shift = getMatchingRules(metrics).reduce((sum, rule) => sum + rule.shift, 0);
+  return Math.max(-adaptiveSettings.maxShift, Math.min(adaptiveSettings.maxShift, shift));
+}
+
+/**
+ * Move probability one step harder (shift > 0: easy → medium → hard) or easier (shift < 0)
+ */
+export function applyShift(distribution: DifficultyDistribution, shift: number): DifficultyDistribution {
+  const amount = Math.abs(shift);
+  if (shift > 0) {
+    return {
+      easy: distribution.easy * (1 - amount),
+      medium: distribution.medium * (1 - amount) + distribution.easy * amount,
+      hard: distribution.hard + distribution.medium * amount
+    };
+  }
+  return {
+    easy: distribution.easy + distribution.medium * amount,
+    medium: distribution.medium * (1 - amount) + distribution.hard * amount,
+    hard: distribution.hard * (1 - amount)
+  };
+}
+
+/**
+ * Probabilities of the next difficulty
+ */
+export function getDifficultyDistribution(
+  sentenceNumber: number,
+  recentPerformance: GameResult[],
+  adaptive: boolean = true
+): DifficultyDistribution {
+  const base = getBaseDistribution(sentenceNumber);
+  const metrics = getPerformanceMetrics(recentPerformance);
+  if (!adaptive || !adaptiveSettings.enabled || !metrics) return base;
+  return applyShift(base, getAdaptiveShift(metrics));
+}
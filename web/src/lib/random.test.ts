@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildPuzzle, getCipherTokens, getRandomSentence } from './cipher';
+import { createSeededRandom, deriveSeed, shuffle } from './random';
+
+function take(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+describe('createSeededRandom', () => {
+  it('repeats the same stream for the same seed', () => {
+    expect(take(createSeededRandom(42), 10)).toEqual(take(createSeededRandom(42), 10));
+    expect(take(createSeededRandom('gün'), 10)).toEqual(take(createSeededRandom('gün'), 10));
+  });
+
+  it('stays in [0, 1)', () => {
+    take(createSeededRandom(7), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('gives different streams for different seeds and derived seeds', () => {
+    expect(take(createSeededRandom(1), 5)).not.toEqual(take(createSeededRandom(2), 5));
+    expect(deriveSeed(1, 'hint', 0)).not.toBe(deriveSeed(1, 'hint', 1));
+    expect(deriveSeed(1, 'hint', 0)).toBe(deriveSeed(1, 'hint', 0));
+  });
+
+  it('shuffles without losing items', () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+    expect([...shuffle(items, createSeededRandom(3))].sort((a, b) => a - b)).toEqual(items);
+  });
+});
+
+describe('seeded boards', () => {
+  it('builds the same sentence and board from the same seed', () => {
+    const [first, second] = [1, 2].map(() => {
+      const sentence = getRandomSentence('easy', createSeededRandom(11));
+      const game = buildPuzzle(sentence, { seed: 11 });
+      return { sentence, tokens: getCipherTokens(game), revealed: [...game.initialRevealedPositions], cipher: game.cipher };
+    });
+    expect(second).toEqual(first);
+  });
+});
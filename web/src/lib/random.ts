@@ -0,0 +1,77 @@
+/**
+ * Seedable random number generation
+ * Every random decision in the game engine goes through a RandomSource so a
+ * seed fully determines the sentence, cipher mapping, reveals and hints.
+ */
+
+/**
+ * A function returning a float in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash an arbitrary string or number into a 32-bit unsigned seed (FNV-1a)
+ */
+export function hashSeed(value: string | number): number {
+  const text = String(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic PRNG (mulberry32) from a seed
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a sub-seed so independent engine steps (e.g. each hint) get their own stream
+ */
+export function deriveSeed(seed: number, ...parts: Array<string | number>): number {
+  return hashSeed([seed, ...parts].join(':'));
+}
+
+/**
+ * Create a fresh, non-deterministic seed for a new game
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(max: number, random: RandomSource): number {
+  return Math.floor(random() * max);
+}
+
+/**
+ * Pick a random element from a non-empty array
+ */
+export function pickRandom<T>(items: readonly T[], random: RandomSource): T {
+  return items[randomInt(items.length, random)];
+}
+
+/**
+ * Return a shuffled copy of the array (Fisher-Yates)
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, random);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,146 @@
+/**
+ * Skill Ratings
+ * Elo with a Glicko-style deviation: the player and every sentence carry a rating that moves
+ * after each result, and progressive games pick sentences rated close to the player
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import type { GameResult } from './cipher';
+
+const RATING_STORAGE_KEY = 'kriptografya.ratings';
+
+export interface Rating {
+  rating: number;
+  deviation: number; // Belirsizlik - az oyunla yüksek, rating daha hızlı değişir
+  games: number;
+}
+
+export interface RatingState {
+  player: Rating;
+  sentences: Record<number, Rating>; // Cümle id → rating
+}
+
+export interface RatedSentence {
+  id: number;
+  difficulty: string;
+}
+
+const ratingSettings = gameSettings.rating;
+
+export function isRatingEnabled(): boolean {
+  return ratingSettings.enabled;
+}
+
+/**
+ * Fresh ratings: the player at the default rating, sentences rated on first use
+ */
+export function initializeRatings(): RatingState {
+  return {
+    player: { rating: ratingSettings.initialPlayerRating, deviation: ratingSettings.initialDeviation, games: 0 },
+    sentences: {}
+  };
+}
+
+/**
+ * Rating of a sentence; unrated sentences start from their difficulty label
+ */
+export function getSentenceRating(ratings: RatingState, sentence: RatedSentence): Rating {
+  const initialRatings = ratingSettings.initialSentenceRatings as Record<string, number>;
+  return ratings.sentences[sentence.id] ?? {
+    rating: initialRatings[sentence.difficulty] ?? ratingSettings.initialPlayerRating,
+    deviation: ratingSettings.initialDeviation,
+    games: 0
+  };
+}
+
+/**
+ * Expected score of the player against a sentence (0-1)
+ */
+export function getExpectedScore(playerRating: number, sentenceRating: number): number {
+  return 1 / (1 + Math.pow(10, (sentenceRating - playerRating) / 400));
+}
+
+/**
+ * Actual score of a result: a clean win is 1, mistakes and hints lower it, a loss is 0
+ */
+export function getResultScore(result: GameResult): number {
+  if (!result.isWon) return 0;
+  const { mistake, hint, minWinScore } = ratingSettings.scorePenalties;
+  return Math.max(minWinScore, 1 - result.mistakes * mistake - result.hintsUsed * hint);
+}
+
+function updateRating(rating: Rating, score: number, expected: number): Rating {
+  const k = ratingSettings.kFactor * (rating.deviation / ratingSettings.initialDeviation);
+  return {
+    rating: Math.round(rating.rating + k * (score - expected)),
+    deviation: Math.max(ratingSettings.minDeviation, rating.deviation * ratingSettings.deviationDecay),
+    games: rating.games + 1
+  };
+}
+
+/**
+ * Move the player and the sentence ratings after a result (the sentence "wins" when the player loses)
+ */
+export function applyRatingResult(ratings: RatingState, sentence: RatedSentence, result: GameResult): RatingState {
+  const sentenceRating = getSentenceRating(ratings, sentence);
+  const score = getResultScore(result);
+  const expected = getExpectedScore(ratings.player.rating, sentenceRating.rating);
+
+  return {
+    player: updateRating(ratings.player, score, expected),
+    sentences: {
+      ...ratings.sentences,
+      [sentence.id]: updateRating(sentenceRating, 1 - score, 1 - expected)
+    }
+  };
+}
+
+/**
+ * Sentences whose rating is within matchWindow of the player (at least minCandidates, closest first)
+ */
+export function getMatchedSentences<T extends RatedSentence>(ratings: RatingState, sentences: T[]): T[] {
+  const byDistance = sentences
+    .map(sentence => ({
+      sentence,
+      distance: Math.abs(getSentenceRating(ratings, sentence).rating - ratings.player.rating)
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  const inWindow = byDistance.filter(entry => entry.distance <= ratingSettings.matchWindow);
+  const matched = inWindow.length >= ratingSettings.minCandidates
+    ? inWindow
+    : byDistance.slice(0, ratingSettings.minCandidates);
+  return matched.map(entry => entry.sentence);
+}
+
+/**
+ * Load ratings from localStorage (fresh ratings on the server or for missing/corrupt data)
+ */
+export function loadRatings(): RatingState {
+  if (typeof window === 'undefined') return initializeRatings();
+  try {
+    const raw = window.localStorage.getItem(RATING_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as RatingState) : null;
+    return parsed?.player && parsed.sentences ? parsed : initializeRatings();
+  } catch {
+    return initializeRatings();
+  }
+}
+
+export function saveRatings(ratings: RatingState): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(RATING_STORAGE_KEY, JSON.stringify(ratings));
+  } catch {
+    // Depolama dolu veya kapalıysa rating sadece bu oturumda kalır
+  }
+}
+
+/**
+ * Forget all ratings
+ */
+export function resetRatings(): RatingState {
+  const ratings = initializeRatings();
+  saveRatings(ratings);
+  return ratings;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { GameResult, GameState, PuzzleOptions, buildPuzzle, getCipherTokens, getRandomSentence, getSolutionText } from './cipher';
+import { EngineState, createEngineState, getSelectablePositions, reduce } from './engine';
+import { createSeededRandom } from './random';
+import { buildReplay, getReplayData } from './replay';
+import { getLetters } from './tokenizer';
+
+const START = 1_700_000_000_000;
+const SECOND = 1000;
+
+/**
+ * Play a game the way a player might: a wrong guess, a hint, an undone guess, then every
+ * remaining letter; returns the final live state
+ */
+function playGame(options: PuzzleOptions): EngineState {
+  const sentence = getRandomSentence('medium', createSeededRandom(6));
+  let state = createEngineState({ ...buildPuzzle(sentence, { seed: 6, ...options }), startTime: START }, START, true);
+  let at = START;
+  const guess = (index: number, letter: string) => {
+    at += SECOND;
+    state = reduce(state, { type: 'SELECT', index, at });
+    state = reduce(state, { type: 'GUESS', letter, index, at });
+  };
+  const solution = getLetters(getSolutionText(state.game));
+
+  const [first, second] = getSelectablePositions(state.game);
+  guess(first, solution[first] === 'Ğ' ? 'J' : 'Ğ');
+  state = reduce(state, { type: 'HINT', at: (at += SECOND) });
+  guess(second, solution[second]);
+  state = reduce(state, { type: 'UNDO', at: (at += SECOND) });
+  getSelectablePositions(state.game).forEach(index => {
+    if (!state.game.isGameOver) guess(index, solution[index]);
+  });
+  return state;
+}
+
+function toResult(game: GameState): GameResult {
+  return {
+    sentenceNumber: 1,
+    difficulty: game.difficulty,
+    isWon: game.isWon,
+    mistakes: game.mistakes,
+    hintsUsed: game.hintsUsed,
+    timeSpent: 0,
+    ...getReplayData(game)
+  };
+}
+
+describe('buildReplay', () => {
+  const variants: Array<[string, PuzzleOptions]> = [
+    ['a regular game', {}],
+    ['a game with hidden word boundaries', { hideWordBoundaries: true }],
+    ['a fill mode game', { fillMode: true }]
+  ];
+
+  variants.forEach(([name, options]) => {
+    it(`ends on the final board of ${name}`, () => {
+      const live = playGame(options).game;
+      expect(live.isWon).toBe(true);
+
+      const replay = buildReplay(toResult(live));
+      expect(replay.success).toBe(true);
+      const last = replay.frames!.at(-1)!.game;
+      expect(getCipherTokens(last)).toEqual(getCipherTokens(live));
+      expect(last.userRevealedPositions).toEqual(live.userRevealedPositions);
+      expect(last.assignments).toEqual(live.assignments);
+      expect(last.mistakes).toBe(live.mistakes);
+      expect(last.hintsUsed).toBe(live.hintsUsed);
+      expect(last.isWon).toBe(live.isWon);
+      expect(last.isGameOver).toBe(live.isGameOver);
+    });
+  });
+
+  it('has one frame per stored move after the starting board', () => {
+    const live = playGame({}).game;
+    const result = toResult(live);
+    expect(buildReplay(result).frames).toHaveLength(result.moves!.length + 1);
+    expect(result.moves!.some(move => move.type === 'select')).toBe(false);
+  });
+
+  it('reports games without a move log', () => {
+    expect(buildReplay({ ...toResult(playGame({}).game), moves: undefined }).success).toBe(false);
+  });
+});
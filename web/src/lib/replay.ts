@@ -0,0 +1,114 @@
+/**
+ * Game Replay
+ * Rebuilds a finished game move by move from the log stored with its GameResult
+ */
+
+import { GameMove, GameResult, GameState, getCipherTokens, getSolutionText } from './cipher';
+import { GameAction, createEngineState, reduce } from './engine';
+import { decodePuzzle, encodePuzzle, getSharedPuzzle, initializeSharedGame } from './share';
+import { getLetterGroups } from './tokenizer';
+
+export interface ReplayFrame {
+  game: GameState;
+  move: GameMove | null; // Bu kareye götüren hamle (ilk karede null)
+}
+
+export interface BoardCell {
+  letter: string;
+  token: string; // Şifre ailesine göre sayı, harf, koordinat veya sembol
+  isRevealed: boolean;
+  index: number;
+}
+
+/**
+ * Replay data to attach to a GameResult; only moves that change the board are stored
+ * (selections are left out, a guess carries its own position)
+ */
+export function getReplayData(game: GameState): Pick<GameResult, 'puzzleCode' | 'moves'> {
+  return {
+    puzzleCode: encodePuzzle(getSharedPuzzle(game)),
+    moves: game.moveLog.filter(move => move.type !== 'select')
+  };
+}
+
+/**
+ * Convert a logged move back into the engine action that produced it
+ */
+function moveToAction(move: GameMove): GameAction {
+  switch (move.type) {
+    case 'select':
+      return { type: 'SELECT', index: move.index, at: move.at };
+    case 'guess':
+    case 'assign':
+      return { type: 'GUESS', letter: move.letter, index: move.index, at: move.at };
+    case 'hint':
+      return { type: 'HINT', positions: move.positions, at: move.at };
+    case 'timeout':
+      return { type: 'TIMEOUT', at: move.at };
+    case 'undo':
+      return { type: 'UNDO', at: move.at };
+  }
+}
+
+/**
+ * Build every board state of a finished game, one frame per move
+ */
+export function buildReplay(result: GameResult): { success: boolean; frames?: ReplayFrame[]; message: string } {
+  if (!result.puzzleCode || !result.moves) {
+    return { success: false, message: 'Bu oyun için hamle kaydı yok.' };
+  }
+
+  const decoded = decodePuzzle(result.puzzleCode);
+  if (!decoded.success || !decoded.puzzle) {
+    return { success: false, message: decoded.message };
+  }
+
+  const initialGame = initializeSharedGame(decoded.puzzle);
+  // Geri alma hamleleri de kayıtta olabileceği için tekrar izlemede her zaman açık
+  let state = createEngineState(initialGame, initialGame.startTime, true);
+  const frames: ReplayFrame[] = [{ game: state.game, move: null }];
+
+  result.moves.forEach(move => {
+    state = reduce(state, moveToAction(move));
+    frames.push({ game: state.game, move });
+  });
+
+  return { success: true, frames, message: '' };
+}
+
+/**
+ * Board cells grouped by word (or by fixed groups when word boundaries are hidden), for compact
+ * rendering of a game state
+ */
+export function getBoardWords(game: GameState): BoardCell[][] {
+  const cipherTokens = getCipherTokens(game);
+  return getLetterGroups(getSolutionText(game), game.groupSize).map(group =>
+    group.map(token => ({
+      letter: token.letter,
+      token: cipherTokens[token.position],
+      isRevealed: game.initialRevealedPositions.has(token.position) || game.userRevealedPositions.has(token.position),
+      index: token.position
+    }))
+  );
+}
+
+/**
+ * Short Turkish description of a move for the replay viewer
+ */
+export function describeMove(move: GameMove | null): string {
+  if (!move) return 'Başlangıç';
+  switch (move.type) {
+    case 'select':
+      return move.index === null ? 'Seçim kaldırıldı' : `${move.index + 1}. harf seçildi`;
+    case 'guess':
+      return `${move.index + 1}. harf için "${move.letter}" ${move.isCorrect ? 'doğru' : 'yanlış'}`;
+    case 'assign':
+      return `${move.index + 1}. harfin şifresine "${move.letter}" atandı`;
+    case 'hint':
+      return `İpucu: ${move.positions.length} harf açıldı`;
+    case 'timeout':
+      return 'Süre doldu';
+    case 'undo':
+      return 'Geri alındı';
+  }
+}
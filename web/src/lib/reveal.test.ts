@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import gameSettings from '../config/gameSettings.json';
+import { getRevealOrder } from './reveal';
+
+const { easyMode, mediumMode } = gameSettings.gameMechanics;
+
+describe('getRevealOrder', () => {
+  it('follows priorityOrder when word boundaries are shown', () => {
+    expect(getRevealOrder(easyMode)).toEqual(['edge', 'common', 'rare']);
+  });
+
+  it('drops word position strategies when word boundaries are hidden', () => {
+    expect(getRevealOrder(easyMode, true)).toEqual(['common', 'rare', 'random']);
+  });
+
+  it('falls back to random when only word positions were configured', () => {
+    expect(getRevealOrder({ useCommonLetters: false, useEdgePositions: true, priorityOrder: ['edge'] }, true))
+      .toEqual(['random']);
+  });
+
+  it('leaves orders without word positions unchanged', () => {
+    expect(getRevealOrder(mediumMode, true)).toEqual(getRevealOrder(mediumMode));
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Reveal Strategies
+ * Each strategy ranks the letter positions of a word; the puzzle builder chains them in the
+ * order of gameMechanics.<difficulty>Mode.priorityOrder and reveals the first positions
+ */
+
+import { RandomSource, shuffle } from './random';
+
+// Türkçe metinlerde harf sıklıkları (yüzde)
+export const TURKISH_LETTER_FREQUENCIES: Record<string, number> = {
+  A: 11.92, E: 8.91, İ: 8.6, N: 7.49, R: 6.72, L: 5.92, I: 5.11, K: 4.68, D: 4.72, M: 3.75,
+  Y: 3.33, U: 3.23, T: 3.01, S: 3.01, B: 2.84, O: 2.48, Ü: 1.99, Ş: 1.78, Z: 1.5, G: 1.25,
+  H: 1.21, Ç: 1.15, Ğ: 1.12, C: 0.96, V: 0.95, P: 0.89, Ö: 0.78, F: 0.46, J: 0.03
+};
+
+const TURKISH_VOWELS = ['A', 'E', 'I', 'İ', 'O', 'Ö', 'U', 'Ü'];
+
+export interface RevealContext {
+  letters: string[]; // Kelimenin harfleri (tr-TR büyük harf)
+  commonLetters: string[];
+  random: RandomSource;
+}
+
+// Tercih sırasına göre pozisyonlar; stratejinin önermediği pozisyonlar listede yer almaz
+export type RevealStrategy = (context: RevealContext) => number[];
+
+export interface RevealMode {
+  useCommonLetters: boolean;
+  useEdgePositions: boolean;
+  priorityOrder: string[];
+}
+
+// Kelimedeki yere göre seçen stratejiler; kelime sınırları gizliyken açtıkları harfler sınırları ele verir
+const WORD_POSITION_STRATEGIES = new Set(['edge']);
+
+function getPositions(letters: string[]): number[] {
+  return letters.map((_, index) => index);
+}
+
+/**
+ * Random order where each position is drawn with probability proportional to its letter frequency
+ */
+function frequencyWeightedOrder({ letters, random }: RevealContext): number[] {
+  const remaining = getPositions(letters);
+  const order: number[] = [];
+  while (remaining.length > 0) {
+    const weights = remaining.map(index => TURKISH_LETTER_FREQUENCIES[letters[index]] ?? 0.01);
+    let target = random() * weights.reduce((sum, weight) => sum + weight, 0);
+    let pick = remaining.length - 1;
+    for (let i = 0; i < remaining.length; i++) {
+      target -= weights[i];
+      if (target < 0) {
+        pick = i;
+        break;
+      }
+    }
+    order.push(...remaining.splice(pick, 1));
+  }
+  return order;
+}
+
+const REVEAL_STRATEGIES = new Map<string, RevealStrategy>([
+  ['edge', ({ letters }) => [0, letters.length - 1]],
+  ['common', ({ letters, commonLetters }) => getPositions(letters).filter(index => commonLetters.includes(letters[index]))],
+  ['rare', ({ letters, commonLetters }) => getPositions(letters).filter(index => !commonLetters.includes(letters[index]))],
+  ['vowel', ({ letters }) => getPositions(letters).filter(index => TURKISH_VOWELS.includes(letters[index]))],
+  ['frequency', frequencyWeightedOrder],
+  ['random', ({ letters, random }) => shuffle(getPositions(letters), random)],
+  // Her farklı harfin ilk geçtiği yer, rastgele sırayla
+  ['distinct', ({ letters, random }) => shuffle(getPositions(letters).filter(index => letters.indexOf(letters[index]) === index), random)]
+]);
+
+/**
+ * Add or replace a strategy that priorityOrder can refer to
+ */
+export function registerRevealStrategy(name: string, strategy: RevealStrategy): void {
+  REVEAL_STRATEGIES.set(name, strategy);
+}
+
+export function getRevealStrategyNames(): string[] {
+  return [...REVEAL_STRATEGIES.keys()];
+}
+
+/**
+ * Strategies a mode actually uses: priorityOrder without unknown names, and without edge /
+ * common when useEdgePositions / useCommonLetters are off.
+ * With hidden word boundaries the word position strategies are dropped and random fills in for them
+ */
+export function getRevealOrder(mode: RevealMode, hideWordBoundaries: boolean = false): string[] {
+  const order = mode.priorityOrder.filter(name => {
+    if (!REVEAL_STRATEGIES.has(name)) return false;
+    if (name === 'edge' && !mode.useEdgePositions) return false;
+    if (name === 'common' && !mode.useCommonLetters) return false;
+    return true;
+  });
+  if (!hideWordBoundaries || !order.some(name => WORD_POSITION_STRATEGIES.has(name))) return order;
+
+  const withoutPositions = order.filter(name => !WORD_POSITION_STRATEGIES.has(name));
+  return withoutPositions.includes('random') ? withoutPositions : [...withoutPositions, 'random'];
+}
+
+/**
+ * Chain the strategies and return the first `count` distinct positions
+ */
+export function selectRevealPositions(
+  letters: string[],
+  count: number,
+  order: string[],
+  context: Omit<RevealContext, 'letters'>
+): number[] {
+  const selected: number[] = [];
+  for (const name of order) {
+    const strategy = REVEAL_STRATEGIES.get(name);
+    // Yeterli pozisyon bulunduysa sonraki stratejiler çalışmaz (rastgele akış tüketilmez)
+    if (!strategy || selected.length >= count) continue;
+    for (const position of strategy({ ...context, letters })) {
+      if (selected.length >= count) break;
+      if (!selected.includes(position)) selected.push(position);
+    }
+  }
+  return selected;
+}
@@ -0,0 +1,65 @@
+/**
+ * Game Rules
+ * Mistake budget, time limit, time bonus, hint count, cipher family, word boundaries and fill mode of
+ * a board: global gameSettings defaults, overridden by the difficulty and then by gameSettings.categoryRules for the sentence category
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import { CipherFamily, getDefaultCipherFamily, isCipherFamily } from './ciphers';
+
+export interface GameRules {
+  maxMistakes: number;
+  timeLimit: number; // Saniye, 0 ise süre sınırı yok
+  maxHints: number;
+  timeBonus: number; // Doğru tahmin başına eklenen saniye (sadece süreli oyunlarda)
+  cipherFamily: CipherFamily; // Örn. uzmanlar için homofonik şifre (isteğe bağlı; çözücü homofonik tahtaları okuyamaz)
+  hideWordBoundaries: boolean; // Boşluk ve noktalama gösterilmez, harfler sabit gruplarla yazılır
+  fillMode: boolean; // Bir harf ataması aynı tokenlı bütün kutuları doldurur
+}
+
+// gameSettings, difficulty ve categoryRules'ta aynı alan adları kullanılır
+interface RuleOverrides {
+  maxAttempts?: number;
+  timeLimit?: number;
+  hintCount?: number;
+  timeBonus?: number;
+  cipherFamily?: string;
+  hideWordBoundaries?: boolean;
+  fillMode?: boolean;
+}
+
+function applyOverrides(rules: GameRules, overrides: RuleOverrides | undefined): GameRules {
+  if (!overrides) return rules;
+  return {
+    maxMistakes: overrides.maxAttempts ?? rules.maxMistakes,
+    timeLimit: overrides.timeLimit ?? rules.timeLimit,
+    maxHints: overrides.hintCount ?? rules.maxHints,
+    timeBonus: overrides.timeBonus ?? rules.timeBonus,
+    cipherFamily: isCipherFamily(overrides.cipherFamily) ? overrides.cipherFamily : rules.cipherFamily,
+    hideWordBoundaries: overrides.hideWordBoundaries ?? rules.hideWordBoundaries,
+    fillMode: overrides.fillMode ?? rules.fillMode
+  };
+}
+
+/**
+ * Resolve the rules for a board of the given difficulty and (optional) category
+ */
+export function resolveGameRules(difficulty: 'easy' | 'medium' | 'hard', category?: string): GameRules {
+  const defaults = gameSettings.gameSettings;
+  const categoryRules = gameSettings.categoryRules as Record<string, RuleOverrides>;
+
+  let rules: GameRules = {
+    maxMistakes: defaults.maxAttempts,
+    timeLimit: defaults.timeLimit,
+    maxHints: defaults.hintCount,
+    timeBonus: defaults.timeBonus,
+    cipherFamily: getDefaultCipherFamily(),
+    hideWordBoundaries: defaults.hideWordBoundaries,
+    fillMode: defaults.fillMode
+  };
+  rules = applyOverrides(rules, gameSettings.difficulty[difficulty] as RuleOverrides);
+  rules = applyOverrides(rules, category ? categoryRules[category] : undefined);
+
+  // İpuçları kapalıysa hiçbir tahtada ipucu verilmez
+  return defaults.showHints ? rules : { ...rules, maxHints: 0 };
+}
@@ -0,0 +1,165 @@
+/**
+ * Sentence Scheduler
+ * Remembers which sentences the player has seen and solved so progressive games
+ * avoid repeats until a pool is exhausted; failed sentences come back a few games later
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import { RandomSource, pickRandom } from './random';
+
+const HISTORY_STORAGE_KEY = 'kriptografya.history';
+
+export interface SentenceRecord {
+  seenCount: number;
+  solvedCount: number;
+  lastSeenGame: number; // gameCounter değeri
+  lastWon: boolean;
+}
+
+export interface SentenceHistory {
+  gameCounter: number; // Kaydedilen oyun sayısı
+  sentences: Record<number, SentenceRecord>;
+}
+
+export interface ScheduledSentence {
+  id: number;
+  difficulty: string;
+  category: string;
+}
+
+export interface PoolStats {
+  total: number;
+  seen: number;
+  solved: number;
+  remaining: number; // Henüz görülmemiş
+}
+
+export interface ScheduleStats {
+  overall: PoolStats;
+  byDifficulty: Record<string, PoolStats>;
+  byCategory: Record<string, PoolStats>;
+}
+
+const schedulerSettings = gameSettings.scheduler;
+
+export function isSchedulerEnabled(): boolean {
+  return schedulerSettings.enabled;
+}
+
+export function initializeHistory(): SentenceHistory {
+  return { gameCounter: 0, sentences: {} };
+}
+
+/**
+ * Check whether a failed, never solved sentence has waited long enough to come back
+ */
+function isDueForRetry(record: SentenceRecord, history: SentenceHistory): boolean {
+  return record.solvedCount === 0 && history.gameCounter - record.lastSeenGame >= schedulerSettings.retryAfterGames;
+}
+
+/**
+ * Sentences of the pool that can be played next: unseen ones and failed ones due for a retry;
+ * once the pool is exhausted, the least recently seen share of it
+ */
+export function getEligibleSentences<T extends ScheduledSentence>(pool: T[], history: SentenceHistory): T[] {
+  const eligible = pool.filter(sentence => {
+    const record = history.sentences[sentence.id];
+    return !record || isDueForRetry(record, history);
+  });
+  if (eligible.length > 0) return eligible;
+
+  // Havuz bitti: en uzun süredir görülmeyenler tekrar sıraya girer
+  const byLastSeen = [...pool].sort((a, b) =>
+    (history.sentences[a.id]?.lastSeenGame ?? 0) - (history.sentences[b.id]?.lastSeenGame ?? 0)
+  );
+  return byLastSeen.slice(0, Math.max(1, Math.ceil(pool.length * schedulerSettings.recycleShare)));
+}
+
+/**
+ * Pick the next sentence from a pool, avoiding repeats
+ */
+export function pickScheduledSentence<T extends ScheduledSentence>(
+  pool: T[],
+  history: SentenceHistory,
+  random: RandomSource
+): T {
+  return pickRandom(getEligibleSentences(pool, history), random);
+}
+
+/**
+ * Record that a sentence was played
+ */
+export function recordSentencePlayed(history: SentenceHistory, sentenceId: number, isWon: boolean): SentenceHistory {
+  const gameCounter = history.gameCounter + 1;
+  const previous = history.sentences[sentenceId];
+  return {
+    gameCounter,
+    sentences: {
+      ...history.sentences,
+      [sentenceId]: {
+        seenCount: (previous?.seenCount ?? 0) + 1,
+        solvedCount: (previous?.solvedCount ?? 0) + (isWon ? 1 : 0),
+        lastSeenGame: gameCounter,
+        lastWon: isWon
+      }
+    }
+  };
+}
+
+function countPool(sentences: ScheduledSentence[], history: SentenceHistory): PoolStats {
+  const seen = sentences.filter(sentence => history.sentences[sentence.id]).length;
+  const solved = sentences.filter(sentence => (history.sentences[sentence.id]?.solvedCount ?? 0) > 0).length;
+  return { total: sentences.length, seen, solved, remaining: sentences.length - seen };
+}
+
+function groupBy(sentences: ScheduledSentence[], key: 'difficulty' | 'category'): Record<string, ScheduledSentence[]> {
+  return sentences.reduce<Record<string, ScheduledSentence[]>>((groups, sentence) => {
+    (groups[sentence[key]] ??= []).push(sentence);
+    return groups;
+  }, {});
+}
+
+/**
+ * Seen / solved / remaining counts, overall and per difficulty and category
+ */
+export function getScheduleStats(sentences: ScheduledSentence[], history: SentenceHistory): ScheduleStats {
+  const toStats = (groups: Record<string, ScheduledSentence[]>) =>
+    Object.fromEntries(Object.entries(groups).map(([name, group]) => [name, countPool(group, history)]));
+  return {
+    overall: countPool(sentences, history),
+    byDifficulty: toStats(groupBy(sentences, 'difficulty')),
+    byCategory: toStats(groupBy(sentences, 'category'))
+  };
+}
+
+/**
+ * Load the history from localStorage (empty on the server or for missing/corrupt data)
+ */
+export function loadHistory(): SentenceHistory {
+  if (typeof window === 'undefined') return initializeHistory();
+  try {
+    const raw = window.localStorage.getItem(HISTORY_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as SentenceHistory) : null;
+    return parsed?.sentences && typeof parsed.gameCounter === 'number' ? parsed : initializeHistory();
+  } catch {
+    return initializeHistory();
+  }
+}
+
+export function saveHistory(history: SentenceHistory): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Depolama kapalıysa geçmiş sadece bu oturumda kalır
+  }
+}
+
+/**
+ * Forget every seen sentence
+ */
+export function resetHistory(): SentenceHistory {
+  const history = initializeHistory();
+  saveHistory(history);
+  return history;
+}
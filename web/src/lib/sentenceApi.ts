@@ -0,0 +1,92 @@
+/**
+ * Sentence API Client
+ * Browser side of /api/sentences; every successful change is loaded into the
+ * playable catalog right away so getRandomSentence sees it without a rebuild
+ */
+
+import { loadSentenceCatalog } from './cipher';
+import type { SentenceCatalog } from './catalog';
+import type { SentenceChanges, StoreResult } from './sentenceStore';
+
+const SENTENCES_API = '/api/sentences';
+const ADMIN_TOKEN_KEY = 'kriptografya.adminToken';
+
+/**
+ * Admin token sent with every change (kept for the browser tab only)
+ */
+export function getAdminToken(): string {
+  if (typeof window === 'undefined') return '';
+  try {
+    return window.sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function setAdminToken(token: string): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } catch {
+    // Depolama kapalıysa anahtar her istekte boş gider, sunucu 401 döner
+  }
+}
+
+/**
+ * Fetch the sentence store (null when the API is unavailable, e.g. on a static export)
+ */
+export async function fetchSentenceCatalog(): Promise<SentenceCatalog | null> {
+  try {
+    const response = await fetch(SENTENCES_API, { cache: 'no-store' });
+    return response.ok ? ((await response.json()) as SentenceCatalog) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the sentence store into the playable catalog; keeps the bundled sentences if the API is unavailable
+ */
+export async function syncSentenceCatalog(): Promise<SentenceCatalog | null> {
+  const catalog = await fetchSentenceCatalog();
+  if (catalog) {
+    loadSentenceCatalog(catalog.sentences);
+  }
+  return catalog;
+}
+
+async function sendChange(url: string, method: 'POST' | 'PUT' | 'DELETE', changes?: SentenceChanges): Promise<StoreResult> {
+  try {
+    const authorization = { Authorization: `Bearer ${getAdminToken()}` };
+    const response = await fetch(url, changes ? {
+      method,
+      headers: { ...authorization, 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    } : { method, headers: authorization });
+    const result = (await response.json()) as StoreResult;
+    if (result.success && result.catalog) {
+      loadSentenceCatalog(result.catalog.sentences);
+    }
+    return result;
+  } catch {
+    return { success: false, message: 'Sunucuya ulaşılamadı.' };
+  }
+}
+
+/**
+ * Create a sentence (no id) or update an existing one
+ */
+export function saveSentence(changes: SentenceChanges, id?: number): Promise<StoreResult> {
+  return id === undefined
+    ? sendChange(SENTENCES_API, 'POST', changes)
+    : sendChange(`${SENTENCES_API}/${id}`, 'PUT', changes);
+}
+
+/**
+ * Retire a sentence or bring a retired one back into play
+ */
+export function setSentenceRetired(id: number, retired: boolean): Promise<StoreResult> {
+  return retired
+    ? sendChange(`${SENTENCES_API}/${id}`, 'DELETE')
+    : sendChange(`${SENTENCES_API}/${id}`, 'PUT', { retired: false });
+}
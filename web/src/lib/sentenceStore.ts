@@ -0,0 +1,199 @@
+/**
+ * Sentence Store (server only)
+ * JSON file that the admin sentence authoring API reads and writes; starts as a copy of sentences.json
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sentencesData from '../data/sentences.json';
+import { CatalogSentence, SentenceCatalog, computeSentenceMetadata, validateCatalog } from './catalog';
+
+// SENTENCE_STORE_PATH ile başka bir dosya kullanılabilir
+const STORE_PATH = process.env.SENTENCE_STORE_PATH ?? path.join(process.cwd(), 'data', 'sentences.store.json');
+
+// Yazma istekleri "Authorization: Bearer <SENTENCE_ADMIN_TOKEN>" taşımalı; değişken tanımlı değilse düzenleme kapalıdır
+const ADMIN_TOKEN = process.env.SENTENCE_ADMIN_TOKEN ?? '';
+
+export interface SentenceInput {
+  text: string;
+  difficulty: string;
+  category: string;
+  description?: string;
+  tags?: string[];
+}
+
+export type SentenceChanges = Partial<SentenceInput> & { retired?: boolean };
+
+export interface StoreResult {
+  success: boolean;
+  message: string;
+  sentence?: CatalogSentence;
+  catalog?: SentenceCatalog;
+  notFound?: boolean;
+  storeError?: boolean; // Depo dosyası okunamadı veya yazılamadı
+}
+
+/**
+ * Check the admin token of a write request; returns the rejection to send, or null when allowed
+ */
+export function authorizeAdmin(request: Request): { status: 401 | 403; result: StoreResult } | null {
+  if (ADMIN_TOKEN === '') {
+    return { status: 403, result: { success: false, message: 'Cümle düzenleme bu sunucuda kapalı.' } };
+  }
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  // Özetler karşılaştırılır: uzunluk farkı ve karşılaştırma süresi anahtarı ele vermez
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (token === '' || !timingSafeEqual(digest(token), digest(ADMIN_TOKEN))) {
+    return { status: 401, result: { success: false, message: 'Yönetici anahtarı eksik veya hatalı.' } };
+  }
+  return null;
+}
+
+/**
+ * Pick the known fields from a request body, dropping anything of the wrong type
+ */
+export function parseSentenceChanges(body: unknown): SentenceChanges {
+  const data = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const changes: SentenceChanges = {};
+  if (typeof data.text === 'string') changes.text = data.text;
+  if (typeof data.difficulty === 'string') changes.difficulty = data.difficulty;
+  if (typeof data.category === 'string') changes.category = data.category;
+  if (typeof data.description === 'string') changes.description = data.description;
+  if (Array.isArray(data.tags)) changes.tags = data.tags.filter((tag): tag is string => typeof tag === 'string');
+  if (typeof data.retired === 'boolean') changes.retired = data.retired;
+  return changes;
+}
+
+// Yazmalar sırayla yapılır, aynı anda gelen iki istek birbirinin kaydını ezmez
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read the store, falling back to the bundled catalog when no store file exists yet
+ * (a corrupt or unreadable file throws, so it is never overwritten with the bundled copy)
+ */
+export async function readSentenceStore(): Promise<SentenceCatalog> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(STORE_PATH, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return structuredClone(sentencesData);
+    throw error;
+  }
+  return JSON.parse(raw) as SentenceCatalog;
+}
+
+async function writeSentenceStore(catalog: SentenceCatalog): Promise<void> {
+  await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  // Önce geçici dosyaya yaz, sonra taşı - yarım kalan yazma dosyayı bozmaz
+  const tempPath = `${STORE_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(catalog, null, 2) + '\n', 'utf-8');
+  await fs.rename(tempPath, STORE_PATH);
+}
+
+/**
+ * Normalize user input into the stored shape (derived fields are always recomputed)
+ */
+function buildSentence(id: number, input: SentenceInput, previous?: CatalogSentence): CatalogSentence {
+  const text = input.text.trim().replace(/\s+/g, ' ');
+  return {
+    id,
+    text,
+    difficulty: input.difficulty,
+    category: input.category,
+    ...computeSentenceMetadata(text),
+    description: input.description?.trim() ?? previous?.description ?? '',
+    tags: (input.tags ?? previous?.tags ?? []).map(tag => tag.trim()).filter(tag => tag !== ''),
+    ...(previous?.retired ? { retired: true } : {})
+  };
+}
+
+/**
+ * Validate the catalog after a change and save it; only errors of the changed sentence block the save
+ */
+function commitChange(catalog: SentenceCatalog, sentence: CatalogSentence, successMessage: string): Promise<StoreResult> {
+  const errors = validateCatalog(catalog).issues.filter(issue =>
+    issue.sentenceId === sentence.id && issue.severity === 'error'
+  );
+  if (errors.length > 0) {
+    return Promise.resolve({ success: false, message: errors.map(issue => issue.message).join(' ') });
+  }
+  return writeSentenceStore(catalog).then(() => ({ success: true, message: successMessage, sentence, catalog }));
+}
+
+function enqueue(task: () => Promise<StoreResult>): Promise<StoreResult> {
+  const guarded = () => task().catch((): StoreResult => ({
+    success: false,
+    message: 'Cümle deposu okunamadı veya yazılamadı.',
+    storeError: true
+  }));
+  const result = writeQueue.then(guarded, guarded);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Add a new sentence with the next free id
+ */
+export function createSentence(input: SentenceChanges): Promise<StoreResult> {
+  return enqueue(async () => {
+    if (input.text === undefined || input.difficulty === undefined || input.category === undefined) {
+      return { success: false, message: 'Cümle metni, zorluk ve kategori gerekli.' };
+    }
+    const catalog = await readSentenceStore();
+    const nextId = catalog.sentences.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+    const sentence = buildSentence(nextId, {
+      text: input.text,
+      difficulty: input.difficulty,
+      category: input.category,
+      description: input.description,
+      tags: input.tags
+    });
+    return commitChange(
+      { ...catalog, sentences: [...catalog.sentences, sentence] },
+      sentence,
+      `Cümle #${nextId} eklendi.`
+    );
+  });
+}
+
+/**
+ * Edit, re-categorize, retire or restore a sentence
+ */
+export function updateSentence(id: number, changes: SentenceChanges): Promise<StoreResult> {
+  return enqueue(async () => {
+    const catalog = await readSentenceStore();
+    const previous = catalog.sentences.find(s => s.id === id);
+    if (!previous) {
+      return { success: false, message: `Cümle #${id} bulunamadı.`, notFound: true };
+    }
+
+    const updated = buildSentence(id, {
+      text: changes.text ?? previous.text,
+      difficulty: changes.difficulty ?? previous.difficulty,
+      category: changes.category ?? previous.category,
+      description: changes.description,
+      tags: changes.tags
+    }, previous);
+    if (changes.retired !== undefined) {
+      if (changes.retired) {
+        updated.retired = true;
+      } else {
+        delete updated.retired;
+      }
+    }
+
+    return commitChange(
+      { ...catalog, sentences: catalog.sentences.map(s => (s.id === id ? updated : s)) },
+      updated,
+      changes.retired === true ? `Cümle #${id} emekliye ayrıldı.` : `Cümle #${id} güncellendi.`
+    );
+  });
+}
+
+/**
+ * Retire a sentence - it stays in the store so its id is never reused
+ */
+export function retireSentence(id: number): Promise<StoreResult> {
+  return updateSentence(id, { retired: true });
+}
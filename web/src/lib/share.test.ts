@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import sentencesData from '../data/sentences.json';
+import { GameState, PuzzleOptions, buildPuzzle, getCipherTokens, getRandomSentence, loadSentenceCatalog } from './cipher';
+import type { CatalogSentence } from './catalog';
+import { getCipherFamilies, hasFixedTokenLetters } from './ciphers';
+import { createSeededRandom, hashSeed } from './random';
+import { decodePuzzle, encodePuzzle, getSharedPuzzle, initializeSharedGame } from './share';
+
+const BUNDLED = sentencesData.sentences as CatalogSentence[];
+const sentence = getRandomSentence('medium', createSeededRandom(1));
+
+/**
+ * Encode the board, open the code again and return the game the receiver would see
+ */
+function roundTrip(game: GameState): GameState {
+  const decoded = decodePuzzle(encodePuzzle(getSharedPuzzle(game)));
+  expect(decoded.message).toBe('');
+  return initializeSharedGame(decoded.puzzle!);
+}
+
+function expectSameBoard(received: GameState, game: GameState): void {
+  expect(getCipherTokens(received)).toEqual(getCipherTokens(game));
+  expect(received.cipherSentence).toBe(game.cipherSentence);
+  expect(received.cipher).toEqual(game.cipher);
+  expect(received.groupSize).toBe(game.groupSize);
+  expect(received.fillMode).toBe(game.fillMode);
+  expect([...received.initialRevealedPositions].sort()).toEqual([...game.initialRevealedPositions].sort());
+  expect(received.revealedLetters).toEqual(game.revealedLetters);
+}
+
+describe('share round trip', () => {
+  afterEach(() => loadSentenceCatalog(BUNDLED));
+
+  getCipherFamilies().forEach(({ family }) => {
+    const variants: Array<[string, PuzzleOptions]> = [
+      ['word boundaries shown', {}],
+      ['word boundaries hidden', { hideWordBoundaries: true }],
+      ['fill mode', { fillMode: true }]
+    ];
+    variants.forEach(([name, options]) => {
+      it(`opens the same ${family} board with ${name}`, () => {
+        const game = buildPuzzle(sentence, { seed: 5, cipher: family, ...options });
+        // Vigenère'de doldurma modu kapanır; kod da bunu taşır
+        expect(game.fillMode).toBe(Boolean(options.fillMode) && hasFixedTokenLetters(game.cipher));
+        expectSameBoard(roundTrip(game), game);
+      });
+    });
+  });
+
+  it('opens a board of a sentence outside the catalog', () => {
+    const game = buildPuzzle({ text: 'Kedi uyuyor, köpek havlıyor.', difficulty: 'easy', category: '' }, { seed: 9 });
+    expect(getSharedPuzzle(game).sentenceId).toBeNull();
+    expectSameBoard(roundTrip(game), game);
+  });
+
+  it('rejects a code whose catalog sentence was edited afterwards', () => {
+    const code = encodePuzzle(getSharedPuzzle(buildPuzzle(sentence, { seed: 5 })));
+    loadSentenceCatalog(BUNDLED.map(entry => (entry.text === sentence.text ? { ...entry, text: `${entry.text} Yine` } : entry)));
+    expect(decodePuzzle(code).success).toBe(false);
+  });
+});
+
+/**
+ * Rewrite the payload of a share code and sign it again, like a hand-edited link would be
+ */
+function resign(code: string, edit: (payload: unknown[]) => void): string {
+  const [version, body] = code.split('.');
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+  edit(payload);
+  const newBody = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+  return `${version}.${newBody}.${hashSeed(newBody).toString(36)}`;
+}
+
+describe('decodePuzzle', () => {
+  const code = encodePuzzle(getSharedPuzzle(buildPuzzle(sentence, { seed: 3 })));
+
+  it('accepts a re-signed code that was not changed', () => {
+    expect(decodePuzzle(resign(code, () => {})).success).toBe(true);
+  });
+
+  it('rejects a code whose body was changed without its checksum', () => {
+    const [version, body, sum] = code.split('.');
+    const tampered = body.slice(0, -1) + (body.endsWith('A') ? 'B' : 'A');
+    expect(decodePuzzle(`${version}.${tampered}.${sum}`).success).toBe(false);
+  });
+
+  it('rejects a mapping chunk that only starts with a base-32 number', () => {
+    const tampered = resign(code, payload => {
+      const mapping = payload[3] as string;
+      const index = mapping.match(/.{2}/g)!.indexOf('01') * 2;
+      // parseInt('1x', 32) okumayı 'x'te bırakıp 1 döndürür
+      payload[3] = mapping.slice(0, index) + '1x' + mapping.slice(index + 2);
+    });
+    expect(decodePuzzle(tampered).success).toBe(false);
+  });
+
+  it('rejects a mapping with a missing or extra digit', () => {
+    expect(decodePuzzle(resign(code, payload => { payload[3] = (payload[3] as string).slice(1); })).success).toBe(false);
+    expect(decodePuzzle(resign(code, payload => { payload[3] = `${payload[3]}0`; })).success).toBe(false);
+  });
+});
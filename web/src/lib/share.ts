@@ -0,0 +1,272 @@
+/**
+ * Shareable Puzzle Links
+ * Compact, versioned, URL-safe encoding of a puzzle definition
+ */
+
+import {
+  CIPHER_ALPHABET,
+  GameState,
+  SENTENCES_DETAILED,
+  TURKISH_ALPHABET,
+  buildPuzzle,
+  getSentenceById,
+  sentenceToCipher
+} from './cipher';
+import { CipherSpec, DEFAULT_CIPHER, hasFixedTokenLetters, parseCipherSpec } from './ciphers';
+import { hashSeed } from './random';
+import { countLetters, getLetters, getWordRevealedPositions } from './tokenizer';
+
+export const SHARE_CODE_VERSION = 2;
+// v1: sadece 29 Türk harfi, harf başına tek base-32 karakter
+const LEGACY_SHARE_CODE_VERSION = 1;
+const MAPPING_CHUNK_PATTERN = /^[0-9a-v]+$/;
+export const SHARE_QUERY_PARAM = 'puzzle';
+
+const DIFFICULTY_CODES = { easy: 'e', medium: 'm', hard: 'h' } as const;
+
+export interface SharedPuzzle {
+  sentence: string;
+  sentenceId: number | null;
+  difficulty: 'easy' | 'medium' | 'hard';
+  letterMapping: Map<string, number>;
+  initialRevealedPositions: Set<number>;
+  seed: number;
+  cipher: CipherSpec;
+  groupSize: number | null;
+  fillMode: boolean;
+}
+
+// [version, difficulty, [sentence id, text hash] or text, numbers in cipher alphabet order (two base-32 digits each), revealed positions, seed, cipher?, groupSize?, fillMode?]
+// Şifre ailesi, grup uzunluğu ve doldurma modu sadece varsayılandan farklıysa yazılır, eski kodlar aynı kalır
+// Eski kodlarda cümle yalnızca id ile yazılıyordu; bunlar metin kontrolü olmadan açılır
+type SentenceRef = number | [number, string] | string;
+type SharePayload = [number, string, SentenceRef, string, number[], number, CipherSpec?, (number | null)?, boolean?];
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+function checksum(body: string): string {
+  return hashSeed(body).toString(36);
+}
+
+// Yönetici cümleyi düzenlerse id aynı kalır ama tahta değişir; metin özeti eski kodları geçersiz kılar
+function hashSentence(text: string): string {
+  return hashSeed(`sentence:${text}`).toString(36);
+}
+
+/**
+ * Extract the shareable puzzle definition from a game state
+ */
+export function getSharedPuzzle(gameState: GameState): SharedPuzzle {
+  const catalogEntry = SENTENCES_DETAILED.find(s => s.text === gameState.originalSentence);
+  return {
+    sentence: gameState.originalSentence,
+    sentenceId: catalogEntry ? catalogEntry.id : null,
+    difficulty: gameState.difficulty,
+    letterMapping: gameState.letterMapping,
+    initialRevealedPositions: gameState.initialRevealedPositions,
+    seed: gameState.seed,
+    cipher: gameState.cipher,
+    groupSize: gameState.groupSize,
+    fillMode: gameState.fillMode
+  };
+}
+
+/**
+ * Encode a puzzle as a URL-safe share code: v<version>.<payload>.<checksum>
+ */
+export function encodePuzzle(puzzle: SharedPuzzle): string {
+  const payload: SharePayload = [
+    SHARE_CODE_VERSION,
+    DIFFICULTY_CODES[puzzle.difficulty],
+    puzzle.sentenceId !== null ? [puzzle.sentenceId, hashSentence(puzzle.sentence)] : puzzle.sentence,
+    Array.from(CIPHER_ALPHABET).map(letter => (puzzle.letterMapping.get(letter) ?? 0).toString(32).padStart(2, '0')).join(''),
+    [...puzzle.initialRevealedPositions].sort((a, b) => a - b),
+    puzzle.seed
+  ];
+  // İsteğe bağlı alanlar sırayla yazılır: sonraki bir alan gerekiyorsa öncekiler de yazılır
+  const optionalFields = [
+    { value: puzzle.cipher, isDefault: puzzle.cipher.family === DEFAULT_CIPHER.family },
+    { value: puzzle.groupSize, isDefault: puzzle.groupSize === null },
+    { value: puzzle.fillMode, isDefault: !puzzle.fillMode }
+  ];
+  const lastNeeded = optionalFields.map(field => field.isDefault).lastIndexOf(false);
+  optionalFields.slice(0, lastNeeded + 1).forEach(field => payload.push(field.value));
+  const body = toBase64Url(JSON.stringify(payload));
+  return `v${SHARE_CODE_VERSION}.${body}.${checksum(body)}`;
+}
+
+/**
+ * Decode the mapping part; it must be a permutation of 1..alphabet length.
+ * v1 codes only cover the Turkish letters, the rest of the cipher alphabet gets the next numbers
+ */
+function decodeMapping(code: unknown, version: number): Map<string, number> | null {
+  if (typeof code !== 'string') return null;
+  const isLegacy = version === LEGACY_SHARE_CODE_VERSION;
+  const alphabet = Array.from(isLegacy ? TURKISH_ALPHABET : CIPHER_ALPHABET);
+  const width = isLegacy ? 1 : 2;
+
+  // parseInt geçersiz karakterde durup baştaki kısmı okuduğundan her parça önce kontrol edilir
+  if (code.length !== alphabet.length * width) return null;
+  const chunks: string[] = [];
+  for (let i = 0; i < code.length; i += width) {
+    chunks.push(code.slice(i, i + width));
+  }
+  if (!chunks.every(chunk => MAPPING_CHUNK_PATTERN.test(chunk))) return null;
+
+  const numbers = chunks.map(chunk => parseInt(chunk, 32));
+  if (
+    !numbers.every(n => Number.isInteger(n) && n >= 1 && n <= alphabet.length) ||
+    new Set(numbers).size !== numbers.length
+  ) {
+    return null;
+  }
+
+  const mapping = new Map<string, number>();
+  alphabet.forEach((letter, index) => mapping.set(letter, numbers[index]));
+  let nextNumber = alphabet.length;
+  Array.from(CIPHER_ALPHABET).forEach(letter => {
+    if (!mapping.has(letter)) mapping.set(letter, ++nextNumber);
+  });
+  return mapping;
+}
+
+/**
+ * Decode and validate a share code
+ */
+export function decodePuzzle(code: string): { success: boolean; puzzle?: SharedPuzzle; message: string } {
+  const invalid = { success: false, message: 'Paylaşılan bulmaca bağlantısı geçersiz veya bozulmuş.' };
+
+  const parts = code.trim().split('.');
+  if (parts.length !== 3) return invalid;
+
+  const [versionPart, body, sum] = parts;
+  const version = [SHARE_CODE_VERSION, LEGACY_SHARE_CODE_VERSION].find(v => versionPart === `v${v}`);
+  if (version === undefined) {
+    return { success: false, message: 'Bu bulmaca bağlantısı desteklenmeyen bir sürüme ait.' };
+  }
+  if (checksum(body) !== sum) return invalid;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(body));
+  } catch {
+    return invalid;
+  }
+
+  if (!Array.isArray(payload) || payload.length < 6 || payload.length > 9 || payload[0] !== version) return invalid;
+  const [, difficultyCode, sentenceRef, mappingCode, positions, seed, cipherRef, groupSize, fillMode] = payload as SharePayload;
+
+  const difficulty = (Object.keys(DIFFICULTY_CODES) as Array<keyof typeof DIFFICULTY_CODES>)
+    .find(key => DIFFICULTY_CODES[key] === difficultyCode);
+  if (!difficulty) return invalid;
+
+  // Sentence: catalog id (with the hash of its text) or free text
+  let sentence: string;
+  let sentenceId: number | null = null;
+  const catalogRef = Array.isArray(sentenceRef) ? sentenceRef : typeof sentenceRef === 'number' ? [sentenceRef] : null;
+  if (catalogRef) {
+    const [id, textHash] = catalogRef;
+    if (!Number.isInteger(id) || (catalogRef.length > 1 && typeof textHash !== 'string') || catalogRef.length > 2) return invalid;
+    const catalogSentence = getSentenceById(id);
+    if (!catalogSentence) {
+      return { success: false, message: 'Paylaşılan bulmacanın cümlesi bulunamadı.' };
+    }
+    if (textHash !== undefined && textHash !== hashSentence(catalogSentence.text)) {
+      return { success: false, message: 'Paylaşılan bulmacanın cümlesi değiştirilmiş, bağlantı artık geçerli değil.' };
+    }
+    sentence = catalogSentence.text;
+    sentenceId = id;
+  } else if (typeof sentenceRef === 'string' && sentenceRef.trim() !== '') {
+    sentence = sentenceRef;
+  } else {
+    return invalid;
+  }
+
+  const letterMapping = decodeMapping(mappingCode, version);
+  if (!letterMapping) return invalid;
+
+  // Revealed positions must point at letters of the sentence
+  const letterCount = countLetters(sentence);
+  if (
+    !Array.isArray(positions) ||
+    !positions.every(p => Number.isInteger(p) && p >= 0 && p < letterCount)
+  ) {
+    return invalid;
+  }
+
+  if (!Number.isInteger(seed) || seed < 0) return invalid;
+
+  const cipher = cipherRef === undefined ? DEFAULT_CIPHER : parseCipherSpec(cipherRef);
+  if (!cipher) return invalid;
+  if (groupSize != null && (!Number.isInteger(groupSize) || groupSize < 1)) return invalid;
+  if (fillMode !== undefined && typeof fillMode !== 'boolean') return invalid;
+  // Doldurma modu her tokenı tek harfe bağlar; Vigenère'de aynı token farklı harfler olabilir
+  if (fillMode && !hasFixedTokenLetters(cipher)) return invalid;
+
+  return {
+    success: true,
+    puzzle: {
+      sentence,
+      sentenceId,
+      difficulty,
+      letterMapping,
+      initialRevealedPositions: new Set(positions),
+      seed,
+      cipher,
+      groupSize: groupSize ?? null,
+      fillMode: fillMode ?? false
+    },
+    message: ''
+  };
+}
+
+/**
+ * Initialize a game that shows exactly the shared board
+ */
+export function initializeSharedGame(puzzle: SharedPuzzle): GameState {
+  // Katalog cümlelerinde kategori kuralları da uygulanır
+  const category = SENTENCES_DETAILED.find(sentence => sentence.id === puzzle.sentenceId)?.category ?? '';
+  const baseGame = buildPuzzle(
+    { text: puzzle.sentence, difficulty: puzzle.difficulty, category },
+    { seed: puzzle.seed }
+  );
+  const letters = getLetters(puzzle.sentence);
+
+  return {
+    ...baseGame,
+    cipherSentence: sentenceToCipher(puzzle.sentence, puzzle.letterMapping, puzzle.cipher, puzzle.groupSize),
+    letterMapping: new Map(puzzle.letterMapping),
+    cipher: puzzle.cipher,
+    groupSize: puzzle.groupSize,
+    fillMode: puzzle.fillMode,
+    revealedLetters: new Set([...puzzle.initialRevealedPositions].map(position => letters[position])),
+    initialRevealedPositions: new Set(puzzle.initialRevealedPositions),
+    // Rebuild per-word positions from the shared global positions
+    wordRevealedPositions: getWordRevealedPositions(puzzle.sentence, puzzle.initialRevealedPositions)
+  };
+}
+
+/**
+ * Build a full link that opens the given game state
+ */
+export function buildShareUrl(gameState: GameState, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SHARE_QUERY_PARAM, encodePuzzle(getSharedPuzzle(gameState)));
+  return url.toString();
+}
@@ -0,0 +1,317 @@
+/**
+ * Turkish Cryptogram Solver
+ * Pattern-based backtracking search over a Turkish word list, ranked with
+ * letter and bigram frequencies
+ */
+
+import { CIPHER_ALPHABET, GameState, SENTENCES_DETAILED, getCipherTokens, getSentenceCatalogVersion, getSolutionText } from './cipher';
+import { hasFixedTokenLetters, hasSingleTokenPerLetter } from './ciphers';
+import sentencesData from '../data/sentences.json';
+import wordsData from '../data/turkishWords.json';
+import { getLetters, getWordLetters, tokenize } from './tokenizer';
+import { TURKISH_LETTER_FREQUENCIES } from './reveal';
+
+const DEFAULT_MAX_SOLUTIONS = 50;
+const DEFAULT_MAX_STEPS = 200000;
+
+export interface SolverPuzzle {
+  words: number[][]; // Her kelime için tahtadaki tokenların numaraları (aynı token aynı numara)
+  known: Map<number, string>; // Açık pozisyonlardan bilinen sayı → harf
+}
+
+export interface SolverSolution {
+  mapping: Map<number, string>;
+  plaintext: string; // Çözülemeyen sayılar '·' ile gösterilir
+  score: number; // Log olasılık, büyük olan daha olası
+}
+
+export interface SolverResult {
+  solutions: SolverSolution[]; // Skora göre sıralı
+  solutionCount: number;
+  isExhaustive: boolean; // Arama bütçe dolmadan bitti mi
+  isUnique: boolean;
+  isFullyDecoded: boolean; // En iyi çözüm tüm sayıları çözüyor mu
+  unknownWords: number[]; // Sözlükte karşılığı olmayan kelime indeksleri
+  isSupported: boolean; // Şifre ailesi bir token = bir harf kuralına uyuyor mu
+}
+
+export interface SolverOptions {
+  maxSolutions?: number;
+  maxSteps?: number;
+  dictionary?: string[];
+}
+
+let cachedDictionary: string[] | null = null;
+let cachedBundledDictionary: string[] | null = null;
+let cachedBigrams: Map<string, number> | null = null;
+let cachedCatalogVersion = -1;
+
+function buildDictionary(sentences: Array<{ text: string }>): string[] {
+  const catalogWords = sentences.flatMap(sentence => getWordLetters(sentence.text));
+  const allWords = [...wordsData.words.map(word => getLetters(word)), ...catalogWords]
+    .map(letters => letters.join(''))
+    .filter(word => word.length > 0);
+  return [...new Set(allWords)];
+}
+
+/**
+ * Word list used by the solver: bundled Turkish words plus every catalog word
+ */
+export function getSolverDictionary(): string[] {
+  // Katalog değiştiyse (yeni cümleler) sözlük yeniden kurulur
+  if (!cachedDictionary || cachedCatalogVersion !== getSentenceCatalogVersion()) {
+    cachedCatalogVersion = getSentenceCatalogVersion();
+    cachedBigrams = null;
+    cachedDictionary = buildDictionary(SENTENCES_DETAILED);
+  }
+  return cachedDictionary;
+}
+
+/**
+ * Word list built only from the bundled files, unaffected by admin catalog edits
+ * (for boards that must be identical for every player, like the daily puzzle)
+ */
+export function getBundledSolverDictionary(): string[] {
+  if (!cachedBundledDictionary) {
+    cachedBundledDictionary = buildDictionary(sentencesData.sentences);
+  }
+  return cachedBundledDictionary;
+}
+
+/**
+ * Log-probabilities of letter pairs (with ^ and $ as word boundaries), learned from the dictionary
+ */
+function getBigramLogProbabilities(): Map<string, number> {
+  const dictionary = getSolverDictionary();
+  if (!cachedBigrams) {
+    const counts = new Map<string, number>();
+    const firstCounts = new Map<string, number>();
+    dictionary.forEach(word => {
+      const padded = ['^', ...word.split(''), '$'];
+      for (let i = 0; i < padded.length - 1; i++) {
+        const pair = padded[i] + padded[i + 1];
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+        firstCounts.set(padded[i], (firstCounts.get(padded[i]) ?? 0) + 1);
+      }
+    });
+    // Add-one smoothing over the cipher alphabet and the end marker
+    const outcomes = CIPHER_ALPHABET.length + 1;
+    cachedBigrams = new Map();
+    counts.forEach((count, pair) => {
+      cachedBigrams!.set(pair, Math.log((count + 1) / ((firstCounts.get(pair[0]) ?? 0) + outcomes)));
+    });
+    firstCounts.forEach((count, first) => {
+      cachedBigrams!.set(`${first}*`, Math.log(1 / (count + outcomes)));
+    });
+  }
+  return cachedBigrams;
+}
+
+/**
+ * Score a decoded word: unigram letter frequencies plus bigram transitions
+ */
+function scoreWord(word: string): number {
+  const bigrams = getBigramLogProbabilities();
+  const padded = ['^', ...word.split(''), '$'];
+  let score = 0;
+  word.split('').forEach(letter => {
+    score += Math.log((TURKISH_LETTER_FREQUENCIES[letter] ?? 0.01) / 100);
+  });
+  for (let i = 0; i < padded.length - 1; i++) {
+    const pair = padded[i] + padded[i + 1];
+    score += bigrams.get(pair) ?? bigrams.get(`${padded[i]}*`) ?? Math.log(1 / 30);
+  }
+  return score;
+}
+
+/**
+ * Repetition signature of a sequence, e.g. KEDİ → 0.1.2.3, ANNE → 0.1.1.2
+ */
+function getPattern<T>(items: T[]): string {
+  const seen = new Map<T, number>();
+  return items.map(item => {
+    if (!seen.has(item)) seen.set(item, seen.size);
+    return seen.get(item);
+  }).join('.');
+}
+
+/**
+ * Whether the solver can read the game's board: every token must stand for one letter and every
+ * letter must have one token (not true for homophonic and Vigenère ciphers)
+ */
+export function isSolverSupported(gameState: GameState): boolean {
+  return hasFixedTokenLetters(gameState.cipher) && hasSingleTokenPerLetter(gameState.cipher);
+}
+
+/**
+ * Extract the solver input from a game: the displayed tokens per word and the given revealed positions
+ */
+export function getSolverPuzzle(
+  gameState: GameState,
+  revealedPositions: Set<number> = gameState.initialRevealedPositions
+): SolverPuzzle {
+  const words: number[][] = [];
+  const known = new Map<number, string>();
+  const cipherTokens = getCipherTokens(gameState);
+  const tokenNumbers = new Map<string, number>();
+
+  tokenize(getSolutionText(gameState)).words.forEach(word => {
+    const numbers: number[] = [];
+    word.letters.forEach(token => {
+      // Çözücü oyuncunun gördüğü tokenlarla çalışır
+      const cipherToken = cipherTokens[token.position];
+      if (!tokenNumbers.has(cipherToken)) tokenNumbers.set(cipherToken, tokenNumbers.size + 1);
+      const number = tokenNumbers.get(cipherToken)!;
+      numbers.push(number);
+      if (revealedPositions.has(token.position)) {
+        known.set(number, token.letter);
+      }
+    });
+    words.push(numbers);
+  });
+
+  return { words, known };
+}
+
+/**
+ * Check whether a dictionary word fits a cipher word under the current assignment
+ */
+function fits(
+  numbers: number[],
+  candidate: string,
+  numberToLetter: Map<number, string>,
+  letterToNumber: Map<string, number>
+): boolean {
+  for (let i = 0; i < numbers.length; i++) {
+    const assignedLetter = numberToLetter.get(numbers[i]);
+    if (assignedLetter !== undefined && assignedLetter !== candidate[i]) return false;
+    const assignedNumber = letterToNumber.get(candidate[i]);
+    if (assignedNumber !== undefined && assignedNumber !== numbers[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Search every reading of the puzzle that is consistent with the word list
+ * and the one-number-one-letter rule of generateCipherMapping
+ */
+export function solvePuzzle(puzzle: SolverPuzzle, options: SolverOptions = {}): SolverResult {
+  const maxSolutions = options.maxSolutions ?? DEFAULT_MAX_SOLUTIONS;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const dictionary = options.dictionary ?? getSolverDictionary();
+
+  const numberToLetter = new Map(puzzle.known);
+  const letterToNumber = new Map<string, number>();
+  numberToLetter.forEach((letter, number) => letterToNumber.set(letter, number));
+
+  // Aynı şifreli kelime bir kez çözülür
+  const uniqueWords = [...new Map(puzzle.words.map(word => [word.join(','), word])).values()];
+  const candidatesByWord = uniqueWords.map(numbers => {
+    const pattern = getPattern(numbers);
+    return dictionary.filter(candidate =>
+      candidate.length === numbers.length &&
+      getPattern(candidate.split('')) === pattern &&
+      fits(numbers, candidate, numberToLetter, letterToNumber)
+    );
+  });
+
+  const unknownKeys = new Set(uniqueWords.filter((_, i) => candidatesByWord[i].length === 0).map(word => word.join(',')));
+  const unknownWords = puzzle.words
+    .map((word, index) => (unknownKeys.has(word.join(',')) ? index : -1))
+    .filter(index => index !== -1);
+  const searchable = uniqueWords
+    .map((numbers, i) => ({ numbers, candidates: candidatesByWord[i] }))
+    .filter(entry => entry.candidates.length > 0);
+
+  const found: Map<number, string>[] = [];
+  const assigned = new Array<boolean>(searchable.length).fill(false);
+  let steps = 0;
+  let budgetExceeded = false;
+
+  const search = (depth: number): void => {
+    if (found.length >= maxSolutions || budgetExceeded) return;
+    if (depth === searchable.length) {
+      found.push(new Map(numberToLetter));
+      return;
+    }
+
+    // Pick the unassigned word with the fewest remaining candidates
+    let bestIndex = -1;
+    let bestCandidates: string[] = [];
+    for (let i = 0; i < searchable.length; i++) {
+      if (assigned[i]) continue;
+      const remaining = searchable[i].candidates.filter(candidate =>
+        fits(searchable[i].numbers, candidate, numberToLetter, letterToNumber)
+      );
+      if (bestIndex === -1 || remaining.length < bestCandidates.length) {
+        bestIndex = i;
+        bestCandidates = remaining;
+      }
+      if (remaining.length === 0) return;
+    }
+
+    assigned[bestIndex] = true;
+    for (const candidate of bestCandidates) {
+      if (++steps > maxSteps) {
+        budgetExceeded = true;
+        break;
+      }
+      const { numbers } = searchable[bestIndex];
+      const added: number[] = [];
+      numbers.forEach((number, i) => {
+        if (!numberToLetter.has(number)) {
+          numberToLetter.set(number, candidate[i]);
+          letterToNumber.set(candidate[i], number);
+          added.push(number);
+        }
+      });
+      search(depth + 1);
+      added.forEach(number => {
+        letterToNumber.delete(numberToLetter.get(number)!);
+        numberToLetter.delete(number);
+      });
+      if (found.length >= maxSolutions || budgetExceeded) break;
+    }
+    assigned[bestIndex] = false;
+  };
+
+  search(0);
+
+  const solutions = found
+    .map(mapping => {
+      const decodedWords = puzzle.words.map(numbers => numbers.map(number => mapping.get(number) ?? '·').join(''));
+      const score = decodedWords
+        .filter(word => !word.includes('·'))
+        .reduce((sum, word) => sum + scoreWord(word), 0);
+      return { mapping, plaintext: decodedWords.join(' '), score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    solutions,
+    solutionCount: solutions.length,
+    isExhaustive: !budgetExceeded && solutions.length < maxSolutions,
+    isUnique: !budgetExceeded && solutions.length === 1,
+    isFullyDecoded: solutions.length > 0 && !solutions[0].plaintext.includes('·'),
+    unknownWords,
+    isSupported: true
+  };
+}
+
+/**
+ * Solve a game from its initial reveals (an empty, unsupported result for homophonic and Vigenère boards)
+ */
+export function solveGame(gameState: GameState, options: SolverOptions = {}): SolverResult {
+  if (!isSolverSupported(gameState)) {
+    return {
+      solutions: [],
+      solutionCount: 0,
+      isExhaustive: false,
+      isUnique: false,
+      isFullyDecoded: false,
+      unknownWords: [],
+      isSupported: false
+    };
+  }
+  return solvePuzzle(getSolverPuzzle(gameState), options);
+}
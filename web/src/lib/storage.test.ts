@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, buildPuzzle, getElapsedTime, getRandomSentence, getSolutionText, initializeProgressiveGame } from './cipher';
+import { createEngineState, getSelectablePositions, reduce } from './engine';
+import { createSeededRandom } from './random';
+import { SAVE_VERSION, SavedSession, deserializeSession, serializeSession } from './storage';
+import { getLetters } from './tokenizer';
+
+const START = 1_700_000_000_000;
+const SECOND = 1000;
+
+/**
+ * A timed board with one correct guess ten seconds in
+ */
+function createPlayedGame(): GameState {
+  const sentence = getRandomSentence('medium', createSeededRandom(2));
+  const game = { ...buildPuzzle(sentence, { seed: 2 }), startTime: START };
+  const index = getSelectablePositions(game)[0];
+  const letter = getLetters(getSolutionText(game))[index];
+  return reduce(createEngineState(game, START), { type: 'GUESS', letter, index, at: START + 10 * SECOND }).game;
+}
+
+function createSession(gameState: GameState): SavedSession {
+  return {
+    progressiveState: initializeProgressiveGame(4),
+    gameState,
+    gameMode: 'progressive',
+    dailyDateKey: null,
+    userFoundLetters: new Set(['A', 'K'])
+  };
+}
+
+describe('saved sessions', () => {
+  it('restores the board, the moves and the sets and maps', () => {
+    const session = createSession(createPlayedGame());
+    const restored = deserializeSession(serializeSession(session, START + 60 * SECOND), START + 60 * SECOND)!;
+
+    expect(restored.progressiveState).toEqual(session.progressiveState);
+    expect(restored.userFoundLetters).toEqual(session.userFoundLetters);
+    expect(restored.gameState).toEqual(session.gameState);
+  });
+
+  it('does not count the time the page was closed', () => {
+    const session = createSession(createPlayedGame());
+    const raw = serializeSession(session, START + 60 * SECOND);
+    const restored = deserializeSession(raw, START + 3600 * SECOND)!;
+
+    expect(getElapsedTime(restored.gameState!, START + 3600 * SECOND)).toBe(60 * SECOND);
+    expect(restored.gameState!.pausedAt).toBeNull();
+  });
+
+  it('opens a paused game paused with the time played before the pause', () => {
+    const game = reduce(createEngineState(createPlayedGame(), START), { type: 'PAUSE', at: START + 30 * SECOND }).game;
+    const raw = serializeSession(createSession(game), START + 60 * SECOND);
+    const restored = deserializeSession(raw, START + 3600 * SECOND)!;
+
+    expect(restored.gameState!.pausedAt).toBe(START + 3600 * SECOND);
+    expect(getElapsedTime(restored.gameState!, START + 7200 * SECOND)).toBe(30 * SECOND);
+  });
+
+  it('fills in fields missing from older saves', () => {
+    const file = JSON.parse(serializeSession(createSession(createPlayedGame()), START));
+    delete file.session.progressiveState.seed;
+    delete file.session.progressiveState.draws;
+    delete file.session.gameState.moveLog;
+    delete file.session.gameState.acceptedReading;
+    const restored = deserializeSession(JSON.stringify(file), START)!;
+
+    expect(Number.isInteger(restored.progressiveState.seed)).toBe(true);
+    expect(restored.progressiveState.draws).toBe(0);
+    expect(restored.gameState!.moveLog).toEqual([]);
+    expect(restored.gameState!.acceptedReading).toBeNull();
+  });
+
+  it('ignores saves of another version and corrupt saves', () => {
+    const file = JSON.parse(serializeSession(createSession(createPlayedGame()), START));
+    expect(deserializeSession(JSON.stringify({ ...file, version: SAVE_VERSION + 1 }), START)).toBeNull();
+    expect(deserializeSession('{"version":', START)).toBeNull();
+  });
+});
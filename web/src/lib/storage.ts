@@ -0,0 +1,145 @@
+/**
+ * Local Save / Resume
+ * Versioned localStorage persistence for the progressive state and the current board
+ */
+
+import gameSettings from '../config/gameSettings.json';
+import { GameState, ProgressiveGameState, getElapsedTime } from './cipher';
+import { DEFAULT_CIPHER } from './ciphers';
+import { createSeed } from './random';
+import { getWordRevealedPositions } from './tokenizer';
+
+export const SAVE_VERSION = 1;
+const SAVE_STORAGE_KEY = 'kriptografya.save';
+
+// practice: admin'den seçilen cümle, istatistiklere sayılmaz ve geri alma açıktır
+export type GameMode = 'progressive' | 'daily' | 'shared' | 'practice';
+
+export interface SavedSession {
+  progressiveState: ProgressiveGameState;
+  gameState: GameState | null;
+  gameMode: GameMode;
+  dailyDateKey: string | null;
+  userFoundLetters: Set<string>;
+}
+
+interface SaveFile {
+  version: number;
+  savedAt: number;
+  elapsedMs: number; // Kayıt anında oyunda geçen süre (duraklatmalar hariç)
+  session: SavedSession;
+}
+
+/**
+ * JSON replacer that keeps Maps and Sets
+ */
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Map) return { __type: 'Map', entries: [...value.entries()] };
+  if (value instanceof Set) return { __type: 'Set', values: [...value.values()] };
+  return value;
+}
+
+/**
+ * JSON reviver that restores Maps and Sets written by replacer
+ */
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '__type' in value) {
+    const tagged = value as { __type: string; entries?: [unknown, unknown][]; values?: unknown[] };
+    if (tagged.__type === 'Map') return new Map(tagged.entries);
+    if (tagged.__type === 'Set') return new Set(tagged.values);
+  }
+  return value;
+}
+
+/**
+ * Serialize a session to a versioned string
+ */
+export function serializeSession(session: SavedSession, now: number = Date.now()): string {
+  const file: SaveFile = {
+    version: SAVE_VERSION,
+    savedAt: now,
+    elapsedMs: session.gameState ? getElapsedTime(session.gameState, now) : 0,
+    session
+  };
+  return JSON.stringify(file, replacer);
+}
+
+/**
+ * Deserialize a session; returns null for unknown versions or corrupt data
+ */
+export function deserializeSession(raw: string, now: number = Date.now()): SavedSession | null {
+  try {
+    const file = JSON.parse(raw, reviver) as SaveFile;
+    if (!file || file.version !== SAVE_VERSION || !file.session?.progressiveState) return null;
+
+    const { session } = file;
+    // Seri seed'inden önceki kayıtlar yeni bir seri seed'i alır
+    session.progressiveState = {
+      ...session.progressiveState,
+      seed: session.progressiveState.seed ?? createSeed(),
+      draws: session.progressiveState.draws ?? 0
+    };
+    if (session.gameState) {
+      // Sayfa kapalıyken geçen süre sayılmaz: startTime kayıttaki geçen süreye göre kaydırılır
+      session.gameState = {
+        ...session.gameState,
+        startTime: now - file.elapsedMs,
+        pausedMs: 0,
+        // Duraklatılmış kaydedilen oyun duraklatılmış açılır
+        pausedAt: session.gameState.pausedAt != null ? now : null,
+        timeBonus: session.gameState.timeBonus ?? 0,
+        bonusTime: session.gameState.bonusTime ?? 0,
+        moveLog: session.gameState.moveLog ?? [], // Hamle kaydından önceki kayıtlar
+        cipher: session.gameState.cipher ?? DEFAULT_CIPHER, // Şifre ailelerinden önceki kayıtlar sayı kullanır
+        acceptedReading: session.gameState.acceptedReading ?? null,
+        groupSize: session.gameState.groupSize ?? null,
+        fillMode: session.gameState.fillMode ?? false,
+        assignments: session.gameState.assignments ?? new Map(),
+        // Eski kayıtlarda kelime metniyle anahtarlanıyordu; açılan pozisyonlardan yeniden kurulur
+        wordRevealedPositions: getWordRevealedPositions(session.gameState.originalSentence, session.gameState.initialRevealedPositions)
+      };
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the session to localStorage (no-op when autoSave is disabled)
+ * Returns false when storage is full or unavailable - the game keeps working without saves
+ */
+export function saveSession(session: SavedSession): boolean {
+  if (typeof window === 'undefined' || !gameSettings.gameSettings.autoSave) return true;
+  try {
+    window.localStorage.setItem(SAVE_STORAGE_KEY, serializeSession(session));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load the saved session from localStorage
+ */
+export function loadSession(): SavedSession | null {
+  if (typeof window === 'undefined' || !gameSettings.gameSettings.autoSave) return null;
+  try {
+    const raw = window.localStorage.getItem(SAVE_STORAGE_KEY);
+    return raw ? deserializeSession(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the saved session
+ */
+export function clearSession(): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.removeItem(SAVE_STORAGE_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { countLetters, getLetterGroups, getLetters, getTokenType, getWordLetters, getWordRevealedPositions, tokenize } from './tokenizer';
+
+describe('tokenize', () => {
+  it('upper-cases letters with Turkish rules', () => {
+    expect(getLetters('ılık iğne')).toEqual(['I', 'L', 'I', 'K', 'İ', 'Ğ', 'N', 'E']);
+  });
+
+  it('gives board positions to letters and digits only', () => {
+    const { tokens, letters } = tokenize('"Saat 3\'te," dedi.');
+    expect(letters.map(token => token.char).join('')).toBe('Saat3tededi');
+    expect(letters.map(token => token.position)).toEqual(letters.map((_, index) => index));
+    tokens.filter(token => !letters.includes(token)).forEach(token => expect(token.position).toBe(-1));
+    expect(tokens.map(token => token.type).slice(0, 7)).toEqual(['quote', 'letter', 'letter', 'letter', 'letter', 'space', 'digit']);
+  });
+
+  it('keeps punctuation inside its word and counts positions within words', () => {
+    const { words } = tokenize('Merhaba, dünya!');
+    expect(words.map(word => word.text)).toEqual(['Merhaba,', 'dünya!']);
+    expect(words.map(word => word.start)).toEqual([0, 7]);
+    expect(words[1].letters.map(token => token.wordPosition)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('treats repeated whitespace as one word break', () => {
+    expect(getWordLetters('Bir  iki\nüç')).toEqual([['B', 'İ', 'R'], ['İ', 'K', 'İ'], ['Ü', 'Ç']]);
+  });
+
+  it('keeps words without letters as empty words', () => {
+    expect(getWordLetters('Evet — hayır')).toEqual([['E', 'V', 'E', 'T'], [], ['H', 'A', 'Y', 'I', 'R']]);
+  });
+
+  it('reads a decomposed accent as one letter', () => {
+    expect(countLetters('Ka\u0302r')).toBe(3);
+    expect(getLetters('Ka\u0302r')).toEqual(['K', 'Â', 'R']);
+  });
+});
+
+describe('getTokenType', () => {
+  it('tells letters, digits, quotes, punctuation and spaces apart', () => {
+    expect(['ş', '7', '«', '’', '?', ' '].map(getTokenType)).toEqual(['letter', 'digit', 'quote', 'quote', 'punctuation', 'space']);
+  });
+});
+
+describe('getLetterGroups', () => {
+  it('groups by word when word boundaries are shown', () => {
+    expect(getLetterGroups('Gel buraya').map(group => group.length)).toEqual([3, 6]);
+  });
+
+  it('cuts the letters into fixed groups across words when boundaries are hidden', () => {
+    const groups = getLetterGroups('Gel buraya', 4);
+    expect(groups.map(group => group.map(token => token.letter).join(''))).toEqual(['GELB', 'URAY', 'A']);
+    expect(groups[1].map(token => token.position)).toEqual([4, 5, 6, 7]);
+  });
+});
+
+describe('getWordRevealedPositions', () => {
+  it('maps board positions to positions inside each word', () => {
+    expect(getWordRevealedPositions('Gel buraya', [0, 4, 8, 20])).toEqual(new Map([
+      [0, new Set([0])],
+      [1, new Set([1, 5])]
+    ]));
+  });
+});
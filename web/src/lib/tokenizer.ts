@@ -0,0 +1,158 @@
+/**
+ * Sentence Tokenizer
+ * Splits a sentence into typed tokens with stable letter positions; every part of the game
+ * that counts letters, walks words or maps board positions goes through here.
+ * Letters and digits are both ciphered, so both get a board position
+ */
+
+export type TokenType = 'letter' | 'digit' | 'punctuation' | 'quote' | 'space';
+
+export interface Token {
+  type: TokenType;
+  char: string; // Metindeki hali
+  letter: string; // Türkçe büyük harf hali (tr-TR)
+  offset: number; // Metindeki karakter sırası
+  wordIndex: number; // Ait olduğu kelime, boşluklarda -1
+  position: number; // Harf ve rakamlarda tahtadaki genel pozisyon, diğerlerinde -1
+  wordPosition: number; // Harf ve rakamlarda kelime içindeki pozisyon, diğerlerinde -1
+}
+
+export interface WordToken {
+  index: number;
+  text: string;
+  tokens: Token[];
+  letters: Token[]; // Şifrelenen token'lar (harf ve rakam)
+  start: number; // İlk harfin genel pozisyonu
+}
+
+export interface TokenizedSentence {
+  text: string;
+  tokens: Token[];
+  words: WordToken[];
+  letters: Token[]; // Tahtadaki pozisyon sırasıyla tüm harf ve rakamlar
+}
+
+const LETTER_PATTERN = /\p{L}/u;
+const DIGIT_PATTERN = /\p{Nd}/u;
+const SPACE_PATTERN = /\s/u;
+const QUOTE_PATTERN = /[\p{Pi}\p{Pf}'"`]/u;
+
+/**
+ * Type of a single character
+ */
+export function getTokenType(char: string): TokenType {
+  if (SPACE_PATTERN.test(char)) return 'space';
+  if (LETTER_PATTERN.test(char)) return 'letter';
+  if (DIGIT_PATTERN.test(char)) return 'digit';
+  if (QUOTE_PATTERN.test(char)) return 'quote';
+  return 'punctuation';
+}
+
+/**
+ * Whether the token is ciphered (has a board position)
+ */
+export function isCipherToken(token: Token): boolean {
+  return token.type === 'letter' || token.type === 'digit';
+}
+
+// Aynı cümle bir hamlede defalarca tokenize edildiği için son sonuç saklanır
+let lastTokenized: TokenizedSentence | null = null;
+
+/**
+ * Tokenize a sentence; words are separated by whitespace, positions count letters and digits
+ * (text is NFC-normalized so decomposed accents like A + ◌̂ stay one letter)
+ */
+export function tokenize(text: string): TokenizedSentence {
+  if (lastTokenized?.text === text) return lastTokenized;
+
+  const tokens: Token[] = [];
+  const words: WordToken[] = [];
+  const letters: Token[] = [];
+  let currentWord: WordToken | null = null;
+
+  Array.from(text.normalize('NFC')).forEach((char, offset) => {
+    const type = getTokenType(char);
+    if (type === 'space') {
+      currentWord = null;
+      tokens.push({ type, char, letter: char, offset, wordIndex: -1, position: -1, wordPosition: -1 });
+      return;
+    }
+
+    if (!currentWord) {
+      currentWord = { index: words.length, text: '', tokens: [], letters: [], start: letters.length };
+      words.push(currentWord);
+    }
+    const isCiphered = type === 'letter' || type === 'digit';
+    const token: Token = {
+      type,
+      char,
+      letter: char.toLocaleUpperCase('tr-TR'),
+      offset,
+      wordIndex: currentWord.index,
+      position: isCiphered ? letters.length : -1,
+      wordPosition: isCiphered ? currentWord.letters.length : -1
+    };
+    currentWord.text += char;
+    currentWord.tokens.push(token);
+    if (isCiphered) {
+      currentWord.letters.push(token);
+      letters.push(token);
+    }
+    tokens.push(token);
+  });
+
+  lastTokenized = { text, tokens, words, letters };
+  return lastTokenized;
+}
+
+/**
+ * Letters of the text in board order (tr-TR upper case)
+ */
+export function getLetters(text: string): string[] {
+  return tokenize(text).letters.map(token => token.letter);
+}
+
+/**
+ * Number of letter positions of the text
+ */
+export function countLetters(text: string): number {
+  return tokenize(text).letters.length;
+}
+
+/**
+ * Letters of each word, words without letters included as empty lists
+ */
+export function getWordLetters(text: string): string[][] {
+  return tokenize(text).words.map(word => word.letters.map(token => token.letter));
+}
+
+/**
+ * Board layout: the letters of each word, or with hidden word boundaries the letters of the whole
+ * sentence in consecutive groups of groupSize (positions stay those of the original sentence)
+ */
+export function getLetterGroups(text: string, groupSize: number | null = null): Token[][] {
+  const { words, letters } = tokenize(text);
+  if (!groupSize) return words.map(word => word.letters);
+  const groups: Token[][] = [];
+  for (let start = 0; start < letters.length; start += groupSize) {
+    groups.push(letters.slice(start, start + groupSize));
+  }
+  return groups;
+}
+
+/**
+ * Group global letter positions by word: word index → positions inside the word
+ */
+export function getWordRevealedPositions(text: string, positions: Iterable<number>): Map<number, Set<number>> {
+  const { letters } = tokenize(text);
+  const byWord = new Map<number, Set<number>>();
+  for (const position of positions) {
+    const token = letters[position];
+    if (!token) continue;
+    if (!byWord.has(token.wordIndex)) {
+      byWord.set(token.wordIndex, new Set());
+    }
+    byWord.get(token.wordIndex)!.add(token.wordPosition);
+  }
+  return byWord;
+}